@@ -1,5 +1,14 @@
-import { html, LitElement, PropertyDeclaration, PropertyValues } from 'lit';
+import {
+  html,
+  LitElement,
+  PropertyDeclaration,
+  PropertyValues,
+  render,
+  svg as svgTemplate,
+  TemplateResult,
+} from 'lit';
 import { property } from 'lit/decorators.js';
+import { unsafeHTML } from 'lit/directives/unsafe-html.js';
 import * as d3v6 from 'd3';
 import {
   D3DragEvent,
@@ -20,14 +29,39 @@ import styles from './biowc-pathwaygraph.css';
 
 type PossibleRegulationCategoriesType = 'up' | 'down' | 'not';
 
-type PossibleHueType = 'direction' | 'foldchange' | 'potency';
+// 'direction' or the id of one of the hue modes, e.g. 'foldchange' or 'potency', see {@link HueMode}
+type PossibleHueType = string;
+
+type PossibleColorScalePreset =
+  | 'viridis'
+  | 'cividis'
+  | 'magma'
+  | 'inferno'
+  | 'plasma'
+  | 'blueRed'
+  | 'purpleGreen';
 
 type PossibleApplicationMode = 'viewing' | 'editing';
 
+type PossibleModificationType = 'phospho' | 'ubiquitin' | 'acetyl' | 'glyco';
+
+type PossibleMappingRoute =
+  | 'uniprot'
+  | 'isoform'
+  | 'geneName'
+  | 'caseInsensitive'
+  | 'identifierMapping';
+
+type PossiblePTMTableFormat = 'generic' | 'maxquant' | 'spectronaut' | 'diann';
+
+type PossibleKinaseSubstrateTableFormat = 'phosphositeplus' | 'omnipath';
+
 const NODE_HEIGHT = 10;
 const PTM_NODE_WIDTH = 15;
 const PTM_NODE_HEIGHT = 10;
 const DBL_CLICK_TIMEOUT = 200;
+const TIMEPOINT_TRANSITION_DURATION = 500;
+const PROTEIN_HEATMAP_HEIGHT = 6;
 
 /**
  * Internal representation of any node in the pathway.
@@ -55,6 +89,53 @@ interface GeneProteinNode extends PathwayGraphNode {
   nUp?: number;
   nDown?: number;
   nNot?: number;
+  // Only defined if kinase activity scoring is enabled and the node has enough substrates.
+  // Interfaces are hoisted, so we can reference KinaseActivityScore before defining it
+  // eslint-disable-next-line no-use-before-define
+  kinaseActivity?: KinaseActivityScore;
+  // The values of the mapped protein input entries per cell of the heatmap strip, see {@link ProteinHeatmapOptions}
+  heatmapValues?: { [key: string]: number[] };
+}
+
+/**
+ * Represents a compound node.
+ */
+interface CompoundNode extends PathwayGraphNode {
+  label?: string;
+  // Names and identifiers the metaboliteInputList is mapped by, in addition to the label
+  compoundNames?: string[];
+  chebiIds?: string[];
+  hmdbIds?: string[];
+  keggIds?: string[];
+  inchiKeys?: string[];
+  detailsInternal?: { [key: string]: string | number };
+  detailsForTooltip?: { [key: string]: string | number };
+  // The following are only defined if Metabolite Data was supplied
+  nUp?: number;
+  nDown?: number;
+  nNot?: number;
+}
+
+/**
+ * The values of a PTM or protein input entry in one condition, e.g. a time point or a treatment.
+ */
+interface ConditionEntry {
+  regulation?: PossibleRegulationCategoriesType;
+  details?: { [key: string]: string | number };
+}
+
+/**
+ * The dose-response data of a PTM, e.g. from a decryptM experiment. The curve is drawn from the fitted parameters
+ * of response = bottom + (top - bottom) / (1 + (dose / ec50) ^ slope), or else fitted to the measured points.
+ * Doses and the EC50 are molar concentrations, doses of zero (the controls) are not drawn on the log scale.
+ */
+interface DoseResponseData {
+  top?: number;
+  bottom?: number;
+  slope?: number;
+  ec50?: number;
+  doses?: number[];
+  responses?: number[];
 }
 
 /**
@@ -63,9 +144,17 @@ interface GeneProteinNode extends PathwayGraphNode {
 interface PTMInputEntry {
   geneNames?: string[];
   uniprotAccs?: string[];
-  regulation: PossibleRegulationCategoriesType;
+  // Other identifiers like Ensembl or Entrez ids, they are only matched via the identifierMapping
+  identifiers?: string[];
+  // Defaults to 'phospho', see {@link modificationTypes}
+  modificationType?: PossibleModificationType;
+  doseResponse?: DoseResponseData;
+  // If not given, the regulation is derived from the details, see {@link RegulationThresholds}
+  regulation?: PossibleRegulationCategoriesType;
   details?: { [key: string]: string | number };
   hiddenDetails?: { [key: string]: string | number };
+  // While one of these conditions is active, its values take precedence over the ones above
+  conditions?: { [key: string]: ConditionEntry };
 }
 
 /**
@@ -73,12 +162,23 @@ interface PTMInputEntry {
  */
 interface PTMNode extends PathwayGraphNode {
   geneProteinNodeId: string;
+  modificationType: PossibleModificationType;
   detailsInternal?: { [key: string]: string | number };
   detailsForTooltip?: { [key: string]: string | number };
   regulation: PossibleRegulationCategoriesType;
   geneNames?: string[];
   uniprotAccs?: string[];
   summaryNodeId?: string;
+  // Only defined if the input has more than one condition, holds the values of the PTM in each of them
+  conditions?: {
+    [key: string]: {
+      regulation: PossibleRegulationCategoriesType;
+      detailsInternal: { [key: string]: string | number };
+    };
+  };
+  // In the site-centric mode, the details of the peptides that were merged into this site
+  contributingPeptides?: { [key: string]: string | number }[];
+  doseResponse?: DoseResponseData;
 }
 
 /**
@@ -86,6 +186,8 @@ interface PTMNode extends PathwayGraphNode {
  */
 interface PTMSummaryNode extends PathwayGraphNode {
   geneProteinNodeId?: string;
+  // Each modification type has summary nodes of its own
+  modificationType?: PossibleModificationType;
   label: string;
   ptmNodeIds?: string[];
   regulation: PossibleRegulationCategoriesType;
@@ -97,9 +199,362 @@ interface PTMSummaryNode extends PathwayGraphNode {
 interface ProteinInputEntry {
   geneNames?: string[];
   uniprotAccs?: string[];
-  regulation: PossibleRegulationCategoriesType;
+  // Other identifiers like Ensembl or Entrez ids, they are only matched via the identifierMapping
+  identifiers?: string[];
+  // If not given, the regulation is derived from the details, see {@link RegulationThresholds}
+  regulation?: PossibleRegulationCategoriesType;
+  details?: { [key: string]: string | number };
+  hiddenDetails?: { [key: string]: string | number };
+  // While one of these conditions is active, its values take precedence over the ones above
+  conditions?: { [key: string]: ConditionEntry };
+}
+
+/**
+ * An entry in the {@link metaboliteInputList}.
+ */
+interface MetaboliteInputEntry {
+  compoundNames?: string[];
+  chebiIds?: string[];
+  hmdbIds?: string[];
+  keggIds?: string[];
+  inchiKeys?: string[];
+  // If not given, the regulation is derived from the details, see {@link RegulationThresholds}
+  regulation?: PossibleRegulationCategoriesType;
   details?: { [key: string]: string | number };
   hiddenDetails?: { [key: string]: string | number };
+  conditions?: { [key: string]: ConditionEntry };
+}
+
+/**
+ * Describes which columns of a PTM table hold which information, see {@link importPtmTable}.
+ * All values are column names as they appear in the header line of the table.
+ */
+interface PTMTableColumnMapping {
+  geneNames?: string;
+  uniprotAccs?: string;
+  // Either a column with the full site (e.g. 'S42'), or separate columns for the amino acid and its position
+  site?: string;
+  aminoAcid?: string;
+  position?: string;
+  modifiedSequence?: string;
+  foldChange?: string;
+  pValue?: string;
+  qValue?: string;
+  potency?: string;
+  upstreamKinases?: string;
+  // Values starting with 'up' or 'down' are read as such, everything else as 'not'.
+  // Without this column, the regulation is derived from fold change and p- or q-value, see {@link RegulationThresholds}.
+  regulation?: string;
+  // Further columns that are copied into the details under their own name
+  detailColumns?: string[];
+  // Rows in which any of these columns contains a '+' are skipped, e.g. decoys and contaminants in MaxQuant tables
+  excludeIfMarked?: string[];
+  // Separates multiple values within one cell, ';' if not given
+  listSeparator?: string;
+  // Separates the columns, detected from the header line if not given
+  delimiter?: string;
+}
+
+/**
+ * Thresholds for deriving the regulation of PTM and protein input entries that do not come with one.
+ * An entry is regulated if its absolute fold change exceeds {@link foldChangeCutoff} and its p- or q-value
+ * is below {@link significanceCutoff}. A positive {@link volcanoCurvature} replaces the rectangular cut-off by
+ * the hyperbolic curve -log10(p) = -log10(significanceCutoff) + volcanoCurvature / (|fold change| - foldChangeCutoff),
+ * so that entries close to either cut-off need to pass the other one by a wider margin.
+ */
+interface RegulationThresholds {
+  // The keys in the details that hold the (log) fold change and the p- or q-value
+  foldChangeKey?: string;
+  significanceKey?: string;
+  foldChangeCutoff?: number;
+  significanceCutoff?: number;
+  volcanoCurvature?: number;
+}
+
+/**
+ * Options for inferring the activity of kinases from the fold changes of their substrates,
+ * i.e. of the PTM nodes they are connected to via kinase-substrate links.
+ * With method 'ksea', the score is the KSEA z-score (mean substrate fold change compared to the mean of all PTMs,
+ * scaled by the square root of the number of substrates and the standard deviation of all PTMs) with a p-value
+ * from the normal distribution. With method 'mean', the score is the deviation of the mean substrate fold change
+ * from the mean of all PTMs and the p-value is the fraction of random substrate sets of the same size whose mean
+ * deviates at least as much.
+ */
+interface KinaseActivityScoringOptions {
+  method?: 'ksea' | 'mean';
+  // Kinases with fewer mapped substrates are not scored
+  minSubstrates?: number;
+  // Kinases with a p-value at or below this are highlighted as perturbed
+  pValueCutoff?: number;
+  // Only used by method 'mean'
+  permutations?: number;
+  foldChangeKey?: string;
+}
+
+/**
+ * A way of coloring the PTM and compound nodes by one of the numeric details of their input.
+ * Sequential scales map the domain from the first to the last color. Diverging scales map the
+ * values below and above the {@link center} to the first and second half of the colors separately,
+ * so that the center always gets the middle color. The built-in modes are in {@link defaultHueModes}.
+ */
+interface HueMode {
+  // The value of the hue property that selects this mode
+  id: string;
+  // Shown as 'By <label>' in the 'Color Scheme' context menu
+  label: string;
+  // Title of the color legend and the range slider, defaults to the label
+  legendTitle?: string;
+  // If several keys are given, the first one found in the details of a node is used
+  detailKey: string | string[];
+  scaleType: 'sequential' | 'diverging';
+  // Only used by diverging scales, defaults to 0
+  center?: number;
+  // Values outside of the domain get the color of its closer end. Defaults to the range of the values
+  domain?: [number, number];
+  // Color by log10 of the values, nodes with values ≤ 0 are not colored
+  logTransform?: boolean;
+  // Colors from low to high, which may refer to custom properties like '--upregulated-color', or a preset.
+  // Defaults to 'viridis' for sequential and 'blueRed' for diverging scales
+  colors?: string[] | PossibleColorScalePreset;
+  // Lets the user narrow down the domain with a slider below the legend
+  rangeSlider?: boolean;
+}
+
+/**
+ * Options for the strips under the labels of gene/protein nodes, which show the protein input in several
+ * conditions or samples at once. By default, there is one cell per condition of the proteinInputList, colored
+ * by {@link valueKey}. With {@link detailKeys}, there is one cell per key instead, e.g. for the intensities of
+ * several samples. The cells share the color scale of the proteins, which has its own section in the legend.
+ */
+interface ProteinHeatmapOptions {
+  detailKeys?: string[];
+  // Defaults to the proteinColorKey, or else the foldChangeKey of the regulationThresholds
+  valueKey?: string;
+  style?: 'heatmap' | 'bars';
+  // Below this zoom level, the strips are hidden
+  minZoom?: number;
+}
+
+/**
+ * Options for the site-centric mode, in which the peptides of the {@link ptmInputList} that cover the same residue
+ * of the same protein are merged into one PTM node. The residues of a peptide are read from its Site, which lists
+ * several of them for multiply modified peptides, e.g. 'S42-p;T44-p'. Peptides without a Site keep their own nodes.
+ * With rule 'bestLocalized' a site takes the values of its peptide with the highest localization probability,
+ * with 'mostSignificant' those of its peptide with the lowest significanceKey value of the regulationThresholds.
+ * With 'median', its fold change and significance are the medians of its peptides.
+ */
+interface SiteAggregationOptions {
+  rule?: 'bestLocalized' | 'median' | 'mostSignificant';
+  // The key in the details that holds the localization probability
+  localizationKey?: string;
+}
+
+/**
+ * A site of the site-centric mode, see {@link SiteAggregationOptions}.
+ */
+interface AggregatedPTMInputEntry extends PTMInputEntry {
+  contributingPeptides: PTMInputEntry[];
+}
+
+/**
+ * The inferred activity of a kinase, see {@link KinaseActivityScoringOptions}.
+ */
+interface KinaseActivityScore {
+  method: 'ksea' | 'mean';
+  score: number;
+  pValue: number;
+  nSubstrates: number;
+}
+
+/**
+ * Translates identifiers of the input into identifiers of the pathway, see {@link identifierMapping}.
+ */
+interface IdentifierMapping {
+  // Maps input identifiers (aliases, orthologs, Ensembl or Entrez ids, ...) to gene names or Uniprot accessions
+  table?: { [key: string]: string | string[] };
+  // Called for identifiers that are not in the table
+  resolver?: (identifier: string) => string | string[] | undefined;
+  // Match gene names, Uniprot accessions and the keys of the table regardless of case
+  caseInsensitive?: boolean;
+}
+
+/**
+ * An input entry in the {@link MappingReport}.
+ */
+interface MappingReportEntry {
+  // The position of the entry in the input list
+  index: number;
+  geneNames: string[];
+  uniprotAccs: string[];
+  nodeIds: string[];
+  // How the entry was matched to each of the nodes
+  routes: { [key: string]: PossibleMappingRoute };
+  // Isoform accessions that were only matched after removing the isoform suffix
+  strippedIsoforms: string[];
+}
+
+/**
+ * How the entries of one input list were mapped to the pathway nodes.
+ */
+interface MappingReportSection {
+  unmapped: MappingReportEntry[];
+  mappedToMultipleNodes: MappingReportEntry[];
+  mappedViaIsoformStripping: MappingReportEntry[];
+  // The number of input entries mapped to each node
+  nodeCounts: { [key: string]: number };
+  // The routes by which the input entries were mapped to each node
+  nodeRoutes: { [key: string]: PossibleMappingRoute[] };
+}
+
+/**
+ * Sent with the 'mappingReport' event after the input has been mapped, see {@link getMappingReport}.
+ */
+interface MappingReport {
+  ptmInput: MappingReportSection;
+  proteinInput: MappingReportSection;
+}
+
+/**
+ * Options for exporting the mapped peptides as a table, see {@link exportPeptideTable}.
+ */
+interface PeptideTableExportOptions {
+  // Keys of the peptide details, or 'all' for every key any exported peptide has
+  columns?: string[] | 'all';
+  // Header names for some of the columns, all other columns are named after their key
+  columnHeaders?: { [key: string]: string };
+  delimiter?: string;
+  // 'visible' exports the peptides of the regulation categories that are currently shown
+  scope?: 'all' | 'selected' | 'visible';
+  includeRegulation?: boolean;
+  // Adds the id and label of the pathway node each peptide is mapped to
+  includeMappedNode?: boolean;
+}
+
+/**
+ * Options for exporting the diagram as SVG, see {@link downloadSvg}.
+ */
+interface SvgExportOptions {
+  includeLegend?: boolean;
+  // The pinned detail cards, see {@link pinDetailCard}
+  includeDetailCards?: boolean;
+}
+
+/**
+ * Options for exporting the diagram as PNG, see {@link downloadPng}.
+ */
+interface RasterExportOptions {
+  // Pixels per SVG unit, 1 corresponds to 96 DPI, so e.g. 300 / 96 gives a print resolution of 300 DPI
+  scale?: number;
+  // Any CSS color, or 'transparent'
+  background?: string;
+  includeLegend?: boolean;
+  includeDetailCards?: boolean;
+}
+
+/**
+ * Options for exporting the diagram as PDF, see {@link downloadPdf}.
+ */
+interface PdfExportOptions {
+  // A named page size, [width, height] in pt, or 'fit' for a page exactly as large as the diagram
+  pageSize?: 'fit' | 'A4' | 'A3' | 'Letter' | [number, number];
+  // Ignored for 'fit'
+  orientation?: 'portrait' | 'landscape';
+  // In pt
+  margin?: number;
+  includeLegend?: boolean;
+  includeDetailCards?: boolean;
+}
+
+/**
+ * A card with the details of a node, pinned by shift-clicking the node, see {@link pinDetailCard}.
+ * Its position is in the coordinates of the canvas, so it stays in place when zooming and panning,
+ * while the leader line to its node follows.
+ * The card is drawn in SVG, so that it can be exported with the diagram. It shows the default detail list of the tooltip
+ * and the dose-response curve, but not the HTML of tooltipOptions.renderers or of the tooltip slots.
+ */
+interface DetailCard {
+  nodeId: string;
+  x: number;
+  y: number;
+  // Measured when the card is drawn
+  width?: number;
+  height?: number;
+}
+
+/**
+ * A node of the graph with the data it is annotated with, as written by the network exporters, see {@link exportCytoscapeJs}.
+ */
+interface AnnotatedGraphNode {
+  id: string;
+  x: number;
+  y: number;
+  // The id of the group the node belongs to
+  parent?: string;
+  attributes: { [key: string]: string | number };
+}
+
+/**
+ * A link of the graph with the data it is annotated with, see {@link AnnotatedGraphNode}.
+ */
+interface AnnotatedGraphLink {
+  id: string;
+  source: string;
+  target: string;
+  attributes: { [key: string]: string | number };
+}
+
+/**
+ * The state while drawing the diagram into a PDF, see {@link _writePdf}.
+ */
+interface PdfDrawingContext {
+  operators: string[];
+  // Pairs of fill and stroke alpha, each one is written as an ExtGState resource
+  graphicsStates: number[][];
+  shadings: string[];
+  // Maps screen coordinates to the coordinates of the exported svg
+  rootMatrix: DOMMatrix;
+}
+
+/**
+ * A kinase-substrate relationship, e.g. from PhosphoSitePlus or OmniPath, see {@link kinaseSubstrateRelationships}.
+ * Kinase and substrate can be given by gene name or Uniprot accession.
+ */
+interface KinaseSubstrateRelationship {
+  kinase: string;
+  substrate: string;
+  // E.g. 'S42', matched against the 'Site' in the details of the PTM input entries.
+  // Without a site, the kinase is linked to all PTMs of the substrate.
+  site?: string;
+  source?: string;
+  score?: number;
+}
+
+/**
+ * Describes which columns of a kinase-substrate table hold which information, see {@link importKinaseSubstrateTable}.
+ */
+interface KinaseSubstrateTableColumnMapping {
+  kinase: string;
+  substrate: string;
+  // Either a column with the full site (e.g. 'S42'), or separate columns for the amino acid and its position
+  site?: string;
+  aminoAcid?: string;
+  position?: string;
+  // Multiple sources within one cell are separated by ';'
+  source?: string;
+  score?: string;
+  // Used if the table has no source column
+  defaultSource?: string;
+  // Rows with another value in this column are skipped, e.g. modifications other than phosphorylation
+  modification?: string;
+}
+
+/**
+ * Restricts the kinase-substrate links that are shown and used for kinase activity scoring.
+ * Links without a score are excluded as soon as a minimum score is set.
+ */
+interface KinaseSubstrateLinkFilter {
+  sources?: string[];
+  minScore?: number;
 }
 
 /**
@@ -112,6 +567,9 @@ interface PathwayGraphLinkInput {
   targetId: string;
   types: string[];
   label?: string;
+  // Only defined for kinase-substrate links: where the relationship is annotated, and its highest confidence score
+  sources?: string[];
+  score?: number;
 }
 
 /**
@@ -129,6 +587,8 @@ interface PathwayGraphLink
   sourceId: string;
   targetId: string;
   label?: string;
+  sources?: string[];
+  score?: number;
 }
 
 // The nodes and links in the D3 graph have additional properties
@@ -157,6 +617,8 @@ interface GeneProteinNodeD3 extends GeneProteinNode, PathwayGraphNodeD3 {
   groupNode?: GroupNodeD3;
 }
 
+interface CompoundNodeD3 extends CompoundNode, PathwayGraphNodeD3 {}
+
 interface GroupNodeD3 extends PathwayGraphNodeD3 {
   componentNodes: GeneProteinNodeD3[];
   polygon?: [number, number][];
@@ -191,6 +653,27 @@ interface PathwayGraphLinkD3 extends PathwayGraphLink {
   isEditHighlighted?: boolean;
 }
 
+/**
+ * Options for the tooltips of the nodes. By default, they list all details in the order of the input.
+ * A renderer replaces the tooltip of a node type, it gets the node and the default tooltip to build upon.
+ * Alternatively, the host can put content into the slot 'tooltip-<node type>', with spaces replaced by underscores,
+ * e.g. 'tooltip-gene_protein' or 'tooltip-ptm_summary', and update it on the 'tooltipShown' event.
+ */
+interface TooltipOptions {
+  // The details that are shown, in this order
+  detailKeys?: string[];
+  // A d3-format specifier for all numeric details, or one per key
+  numberFormat?: string | { [key: string]: string };
+  renderers?: {
+    [key: string]: (
+      node: PathwayGraphNodeD3,
+      defaultTooltip: TemplateResult
+    ) => TemplateResult;
+  };
+  // Links to UniProt and PhosphoSitePlus, for PTM and gene/protein nodes with UniProt accessions
+  externalLinks?: boolean;
+}
+
 export class BiowcPathwaygraph extends LitElement {
   static styles = styles;
 
@@ -211,24 +694,82 @@ export class BiowcPathwaygraph extends LitElement {
   @property({ attribute: false })
   proteinInputList?: ProteinInputEntry[];
 
+  // Mapped to the compound nodes by name, ChEBI, HMDB, KEGG or InChIKey
+  @property({ attribute: false })
+  metaboliteInputList?: MetaboliteInputEntry[];
+
+  // Translates aliases, orthologs or other identifiers of the input into the gene names and Uniprot accessions of the pathway
+  @property({ attribute: false })
+  identifierMapping?: IdentifierMapping;
+
   ptmInputListBackup?: PTMInputEntry[];
 
   proteinInputListBackup?: ProteinInputEntry[];
 
+  metaboliteInputListBackup?: MetaboliteInputEntry[];
+
+  // If set, gene/protein nodes are filled by this numeric detail of the proteinInputList in 'foldchange' hue,
+  // e.g. 'Log Fold Change' or an abundance. Otherwise they are colored by their regulation category
+  @property({ attribute: false })
+  proteinColorKey?: string;
+
+  // If set, gene/protein nodes show their values in all conditions or samples in a strip under their label
+  @property({ attribute: false })
+  proteinHeatmap?: ProteinHeatmapOptions;
+
+  @property({ attribute: false })
+  tooltipOptions?: TooltipOptions;
+
+  // If set, the PTM input is shown with one node per modified site instead of one node per peptide
+  @property({ attribute: false })
+  siteAggregation?: SiteAggregationOptions;
+
   @property({ attribute: false })
   hue!: PossibleHueType;
 
+  // Hue modes in addition to the default ones, a mode with the id of a default one replaces it
+  @property({ attribute: false })
+  hueModes?: HueMode[];
+
   @property({ attribute: false })
   applicationMode!: PossibleApplicationMode;
 
+  @property({ attribute: false })
+  regulationThresholds?: RegulationThresholds;
+
+  // The condition whose values are shown, defaults to the first condition found in the input
+  @property({ attribute: false })
+  activeCondition?: string;
+
   @property({ attribute: false })
   perturbedNodes?: { up: String[]; down: String[]; undirected: String[] };
 
+  // If set, kinases with significantly up- or downregulated substrates are highlighted like perturbed nodes
+  @property({ attribute: false })
+  kinaseActivityScoring?: KinaseActivityScoringOptions;
+
+  // Links kinases to the PTMs they phosphorylate, in addition to the 'Upstream Kinase(s)' in the PTM details
+  @property({ attribute: false })
+  kinaseSubstrateRelationships?: KinaseSubstrateRelationship[];
+
+  @property({ attribute: false })
+  kinaseSubstrateLinkFilter?: KinaseSubstrateLinkFilter;
+
   graphdataPTM?: {
     nodes: (PTMNode | PTMSummaryNode)[];
     links: PathwayGraphLinkInput[];
   };
 
+  mappingReport?: MappingReport;
+
+  // The geneToNodeMap of the skeleton with lower case keys, for case-insensitive matching
+  geneToNodeMapCaseInsensitive?: { [key: string]: GeneProteinNode[] };
+
+  // The table of the identifierMapping with lower case keys, for case-insensitive matching
+  identifierMappingTableCaseInsensitive?: {
+    [key: string]: string | string[];
+  };
+
   d3Nodes?: PathwayGraphNodeD3[];
 
   d3Links?: PathwayGraphLinkD3[];
@@ -236,33 +777,41 @@ export class BiowcPathwaygraph extends LitElement {
   // Can be 0, 1 or 2, to distinguish single- from double-click events
   recentClicks = 0;
 
-  maxPosFoldChange?: number;
+  // The domain of the color scale of the current hue mode
+  colorRangeMin?: number;
 
-  maxNegFoldChange?: number;
+  colorRangeMax?: number;
 
-  maxPotency?: number;
+  // Only used by diverging scales, to leave out the half of the legend that no node is colored by
+  anyValuesBelowCenter?: boolean;
 
-  minPotency?: number;
+  anyValuesAboveCenter?: boolean;
 
-  colorRangeMin?: number;
+  // The hue mode the range slider was initialized for
+  rangeSliderHueMode?: string;
 
-  colorRangeMax?: number;
+  // The range of the proteinColorKey values, which have their own color scale
+  maxPosProteinValue?: number;
+
+  maxNegProteinValue?: number;
 
-  anyDowngoingPTMs?: boolean;
+  anyDowngoingProteins?: boolean;
 
-  anyUpgoingPTMs?: boolean;
+  anyUpgoingProteins?: boolean;
 
   isNodeExpandAndCollapseAllowed: boolean = false;
 
   currentTimeoutId?: NodeJS.Timeout;
 
-  potencyColorScale: string[] = [
-    '#ffffff',
-    '#FED702',
-    '#6C8C54',
-    '#0065bd',
-    '#FF0080',
-  ];
+  // Time between two timepoints during playback, in milliseconds
+  playbackStepDuration: number = 1500;
+
+  playbackIntervalId?: NodeJS.Timeout;
+
+  // The PTM node whose dose-response curve is shown in the pinned panel
+  pinnedDoseResponseNodeId?: string;
+
+  detailCards: DetailCard[] = [];
 
   contextMenu?: ContextMenu;
 
@@ -280,6 +829,8 @@ export class BiowcPathwaygraph extends LitElement {
 
   perturbedNodesVisible: boolean = false; // Will be toggled on startup so actually true at the start
 
+  isConditionSplitViewActive: boolean = false;
+
   // For the context menu I need to explicitly enumerate all possible class lists of gene protein nodes
   static regulation_strings = ['', '.down', '.up', '.both', '.not'];
 
@@ -301,6 +852,15 @@ export class BiowcPathwaygraph extends LitElement {
     ...this.regulation_strings.map(s1 => `rect.node-rect.ptm${s1}`),
   ];
 
+  // The fields of compound nodes and metabolite input entries that hold identifiers
+  static compoundIdentifierFields = [
+    'compoundNames',
+    'chebiIds',
+    'hmdbIds',
+    'keggIds',
+    'inchiKeys',
+  ] as const;
+
   static nodeTypes: { id: string; label: string }[] = [
     { id: 'gene_protein', label: 'Gene/Protein' },
     { id: 'compound', label: 'Metabolite/Compound' },
@@ -315,6 +875,381 @@ export class BiowcPathwaygraph extends LitElement {
     { id: 'other', label: 'Other' },
   ];
 
+  // KGML entry types and the node types they are converted into. Entries of any other type are skipped.
+  static kgmlEntryTypes: { [key: string]: string } = {
+    gene: 'gene_protein',
+    ortholog: 'gene_protein',
+    enzyme: 'gene_protein',
+    compound: 'compound',
+    map: 'pathway',
+    group: 'group',
+  };
+
+  // KGML relation subtypes and the link types they are converted into.
+  static kgmlSubtypeLinkTypes: { [key: string]: string } = {
+    activation: 'activation',
+    expression: 'activation',
+    inhibition: 'inhibition',
+    repression: 'inhibition',
+    'binding/association': 'binding/association',
+    'indirect effect': 'indirect effect',
+    dissociation: 'other',
+    'state change': 'other',
+    'missing interaction': 'other',
+  };
+
+  // KGML relation subtypes that describe a modification. They become the label of the link.
+  // The label is usually given in the 'value' attribute of the subtype, these are only used as fallback.
+  static kgmlSubtypeLabels: { [key: string]: string } = {
+    phosphorylation: '+p',
+    dephosphorylation: '-p',
+    glycosylation: '+g',
+    ubiquitination: '+u',
+    methylation: '+m',
+  };
+
+  // GPML DataNode types and the node types they are converted into. DataNodes of any other type are skipped.
+  static gpmlDataNodeTypes: { [key: string]: string } = {
+    GeneProduct: 'gene_protein',
+    Protein: 'gene_protein',
+    Rna: 'gene_protein',
+    Metabolite: 'compound',
+    Pathway: 'pathway',
+  };
+
+  // Patterns for the GPML databases of metabolites, and the fields of compound nodes their identifiers are kept in
+  static gpmlCompoundDatabases: {
+    [key: string]: 'chebiIds' | 'hmdbIds' | 'keggIds' | 'inchiKeys';
+  } = {
+    chebi: 'chebiIds',
+    hmdb: 'hmdbIds',
+    kegg: 'keggIds',
+    inchi: 'inchiKeys',
+  };
+
+  // GPML arrowheads and the link types they are converted into.
+  // The keys cover both the GPML 2013a and the GPML 2021 vocabulary.
+  // Interactions without arrowhead are undirected and become 'binding/association', all others become 'other'.
+  static gpmlArrowHeadLinkTypes: { [key: string]: string } = {
+    Arrow: 'activation',
+    'mim-stimulation': 'activation',
+    Stimulation: 'activation',
+    'mim-necessary-stimulation': 'activation',
+    NecessaryStimulation: 'activation',
+    'mim-catalysis': 'activation',
+    Catalysis: 'activation',
+    'mim-transcription-translation': 'activation',
+    TranscriptionTranslation: 'activation',
+    TBar: 'inhibition',
+    'mim-inhibition': 'inhibition',
+    Inhibition: 'inhibition',
+    'mim-binding': 'binding/association',
+    Binding: 'binding/association',
+    Undirected: 'binding/association',
+  };
+
+  // Node types and the GPML DataNode types they are exported as, see exportGpml. Groups are exported separately.
+  static gpmlExportDataNodeTypes: { [key: string]: string } = {
+    gene_protein: 'GeneProduct',
+    compound: 'Metabolite',
+    pathway: 'Pathway',
+  };
+
+  // Link types and the GPML 2021 arrowheads they are exported as. All other links get a plain arrow ('Directed').
+  static gpmlExportArrowHeads: { [key: string]: string } = {
+    activation: 'Stimulation',
+    inhibition: 'Inhibition',
+    'binding/association': 'Binding',
+  };
+
+  // Node types and the KGML entry types they are exported as, see exportKgml.
+  static kgmlExportEntryTypes: { [key: string]: string } = {
+    gene_protein: 'gene',
+    compound: 'compound',
+    pathway: 'map',
+    group: 'group',
+  };
+
+  // Link types and the values of the KGML relation subtypes they are exported as.
+  static kgmlExportSubtypes: { [key: string]: string } = {
+    activation: '-->',
+    inhibition: '--|',
+    'binding/association': '---',
+    'indirect effect': '..>',
+  };
+
+  // SBGN-ML glyph classes and the node types they are converted into.
+  // Activity Flow 'biological activity' glyphs are handled separately, because their type depends on their unit of information.
+  static sbgnGlyphNodeTypes: { [key: string]: string } = {
+    macromolecule: 'gene_protein',
+    'macromolecule multimer': 'gene_protein',
+    'nucleic acid feature': 'gene_protein',
+    'nucleic acid feature multimer': 'gene_protein',
+    'simple chemical': 'compound',
+    'simple chemical multimer': 'compound',
+    submap: 'pathway',
+    complex: 'group',
+    'complex multimer': 'group',
+  };
+
+  static sbgnProcessClasses: string[] = [
+    'process',
+    'omitted process',
+    'uncertain process',
+    'association',
+    'dissociation',
+  ];
+
+  // SBGN-ML arc classes (Process Description modulations and Activity Flow influences) and the link types they are converted into.
+  static sbgnArcLinkTypes: { [key: string]: string } = {
+    stimulation: 'activation',
+    'necessary stimulation': 'activation',
+    catalysis: 'activation',
+    'positive influence': 'activation',
+    inhibition: 'inhibition',
+    'negative influence': 'inhibition',
+    modulation: 'other',
+    'unknown influence': 'other',
+  };
+
+  // Column mappings of common PTM tables, see importPtmTable.
+  // None of these tools write fold changes or potencies, so the columns holding them have to be added to the mapping.
+  // The generic format uses the column names of downloadPeptidesCSV and the keys the component reads from the details.
+  static ptmTableFormats: {
+    [key in PossiblePTMTableFormat]: PTMTableColumnMapping;
+  } = {
+    generic: {
+      geneNames: 'Gene Name(s)',
+      uniprotAccs: 'Uniprot',
+      site: 'Site',
+      modifiedSequence: 'Modified Sequence',
+      foldChange: 'Log Fold Change',
+      pValue: 'p Value',
+      qValue: 'q Value',
+      potency: '-log(EC50)',
+      upstreamKinases: 'Upstream Kinase(s)',
+      regulation: 'Regulation',
+    },
+    maxquant: {
+      geneNames: 'Gene names',
+      uniprotAccs: 'Proteins',
+      aminoAcid: 'Amino acid',
+      position: 'Position',
+      modifiedSequence: 'Phospho (STY) Probabilities',
+      detailColumns: ['Localization prob'],
+      excludeIfMarked: ['Reverse', 'Potential contaminant'],
+    },
+    spectronaut: {
+      geneNames: 'PG.Genes',
+      uniprotAccs: 'PG.ProteinGroups',
+      aminoAcid: 'PTM.SiteAA',
+      position: 'PTM.SiteLocation',
+      modifiedSequence: 'EG.ModifiedSequence',
+      detailColumns: ['PTM.SiteProbability'],
+    },
+    diann: {
+      geneNames: 'Gene',
+      uniprotAccs: 'Protein',
+      aminoAcid: 'Residue',
+      position: 'Site',
+      modifiedSequence: 'Sequence',
+    },
+  };
+
+  static modificationTypes: {
+    [key in PossibleModificationType]: {
+      label: string;
+      // Follows the residue in the Site, e.g. 'S42-p'
+      siteSuffix: string;
+      // Precedes the count in the summary nodes
+      abbreviation: string;
+      // The PTM nodes are rectangles of this size and corner radius, rotated by the given degrees
+      glyph: {
+        width: number;
+        height: number;
+        cornerRadius: number;
+        rotation: number;
+      };
+    };
+  } = {
+    phospho: {
+      label: 'Phosphorylation',
+      siteSuffix: '-p',
+      abbreviation: 'P',
+      glyph: {
+        width: PTM_NODE_WIDTH,
+        height: PTM_NODE_HEIGHT,
+        cornerRadius: NODE_HEIGHT,
+        rotation: 0,
+      },
+    },
+    ubiquitin: {
+      label: 'Ubiquitination',
+      siteSuffix: '-ub',
+      abbreviation: 'Ub',
+      glyph: { width: 9, height: 9, cornerRadius: 1, rotation: 45 },
+    },
+    acetyl: {
+      label: 'Acetylation',
+      siteSuffix: '-ac',
+      abbreviation: 'Ac',
+      glyph: {
+        width: PTM_NODE_HEIGHT,
+        height: PTM_NODE_HEIGHT,
+        cornerRadius: 1,
+        rotation: 0,
+      },
+    },
+    glyco: {
+      label: 'Glycosylation',
+      siteSuffix: '-gl',
+      abbreviation: 'Gly',
+      glyph: {
+        width: PTM_NODE_HEIGHT,
+        height: PTM_NODE_HEIGHT,
+        cornerRadius: PTM_NODE_HEIGHT / 2,
+        rotation: 0,
+      },
+    },
+  };
+
+  static defaultRegulationThresholds: Required<RegulationThresholds> = {
+    foldChangeKey: 'Log Fold Change',
+    significanceKey: 'p Value',
+    foldChangeCutoff: 1,
+    significanceCutoff: 0.05,
+    volcanoCurvature: 0,
+  };
+
+  static defaultHueModes: HueMode[] = [
+    {
+      id: 'foldchange',
+      label: 'Fold Change',
+      // BiowcPathwayGraph expects log Fold Changes, therefore the center is 0
+      detailKey: ['Fold Change', 'Log Fold Change'],
+      scaleType: 'diverging',
+      center: 0,
+      colors: [
+        '--downregulated-color',
+        '--unregulated-color-light',
+        '--upregulated-color',
+      ],
+    },
+    {
+      id: 'potency',
+      label: 'Potency',
+      legendTitle: 'pEC50',
+      detailKey: '-log(EC50)',
+      scaleType: 'sequential',
+      domain: [5, 9],
+      colors: ['#ffffff', '#FED702', '#6C8C54', '#0065bd', '#FF0080'],
+      rangeSlider: true,
+    },
+  ];
+
+  static colorScalePresets: {
+    [key in PossibleColorScalePreset]: (t: number) => string;
+  } = {
+    viridis: d3v6.interpolateViridis,
+    cividis: d3v6.interpolateCividis,
+    magma: d3v6.interpolateMagma,
+    inferno: d3v6.interpolateInferno,
+    plasma: d3v6.interpolatePlasma,
+    // d3 runs from red to blue, but we want high values to be red
+    blueRed: t => d3v6.interpolateRdBu(1 - t),
+    purpleGreen: d3v6.interpolatePRGn,
+  };
+
+  static kinaseSubstrateTableFormats: {
+    [key in PossibleKinaseSubstrateTableFormat]: KinaseSubstrateTableColumnMapping;
+  } = {
+    // Kinase_Substrate_Dataset
+    phosphositeplus: {
+      kinase: 'GENE',
+      substrate: 'SUB_ACC_ID',
+      site: 'SUB_MOD_RSD',
+      defaultSource: 'PhosphoSitePlus',
+    },
+    // The enzsub endpoint of the web service
+    omnipath: {
+      kinase: 'enzyme_genesymbol',
+      substrate: 'substrate',
+      aminoAcid: 'residue_type',
+      position: 'residue_offset',
+      source: 'sources',
+      score: 'curation_effort',
+      modification: 'modification',
+    },
+  };
+
+  static defaultPeptideTableExportOptions: Required<PeptideTableExportOptions> =
+    {
+      columns: [
+        'Modified Sequence',
+        'Gene Name(s)',
+        'Uniprot_Accession_Number',
+        'Experiment Name',
+      ],
+      columnHeaders: {
+        Uniprot_Accession_Number: 'Uniprot',
+        'Experiment Name': 'Experiment',
+      },
+      delimiter: ',',
+      scope: 'all',
+      includeRegulation: true,
+      includeMappedNode: false,
+    };
+
+  static defaultProteinHeatmapOptions: ProteinHeatmapOptions = {
+    style: 'heatmap',
+    minZoom: 0.5,
+  };
+
+  static defaultTooltipOptions: TooltipOptions = {
+    externalLinks: false,
+  };
+
+  static defaultSiteAggregationOptions: Required<SiteAggregationOptions> = {
+    rule: 'bestLocalized',
+    localizationKey: 'Localization prob',
+  };
+
+  static defaultSvgExportOptions: Required<SvgExportOptions> = {
+    includeLegend: true,
+    includeDetailCards: false,
+  };
+
+  static defaultRasterExportOptions: Required<RasterExportOptions> = {
+    scale: 2,
+    background: 'white',
+    includeLegend: true,
+    includeDetailCards: false,
+  };
+
+  static defaultPdfExportOptions: Required<PdfExportOptions> = {
+    pageSize: 'fit',
+    orientation: 'portrait',
+    margin: 36,
+    includeLegend: true,
+    includeDetailCards: false,
+  };
+
+  // In pt
+  static pdfPageSizes: { [key: string]: [number, number] } = {
+    A4: [595.28, 841.89],
+    A3: [841.89, 1190.55],
+    Letter: [612, 792],
+  };
+
+  static defaultKinaseActivityScoring: Required<KinaseActivityScoringOptions> =
+    {
+      method: 'ksea',
+      minSubstrates: 2,
+      pValueCutoff: 0.05,
+      permutations: 1000,
+      foldChangeKey: 'Log Fold Change',
+    };
+
   render() {
     return html`
       <div id="pathwayContainer">
@@ -420,14 +1355,32 @@ export class BiowcPathwaygraph extends LitElement {
                 y2="10"
               />
             </pattern>
-            <linearGradient id="potency-linear-gradient"></linearGradient>
+            <linearGradient id="color-scale-linear-gradient"></linearGradient>
+            <linearGradient id="protein-linear-gradient"></linearGradient>
+            ${Object.entries(BiowcPathwaygraph.modificationTypes).map(
+              ([modificationType, { glyph }]) => svgTemplate`
+                <clipPath id="ptmNodeClipPath-${modificationType}">
+                  <rect
+                    x="${-0.5 * glyph.width}"
+                    y="${-0.5 * glyph.height}"
+                    width="${glyph.width}"
+                    height="${glyph.height}"
+                    rx="${glyph.cornerRadius}"
+                    ry="${glyph.cornerRadius}"
+                  />
+                </clipPath>
+              `
+            )}
           </defs>
           <svg id="pathwayLegend" x="15" y="15" />
         </svg>
-        <div id="potencyRangeSlider" class="slider" style="visibility: hidden">
+        <div id="colorRangeSlider" class="slider" style="visibility: hidden">
           <div class="sliders_control">
-            <label for="fromSlider" style="margin-right: 10px"
-              >pEC50 Range:</label
+            <label
+              for="fromSlider"
+              id="colorRangeSliderLabel"
+              style="margin-right: 10px"
+              >Range:</label
             >
             <input
               type="range"
@@ -449,6 +1402,41 @@ export class BiowcPathwaygraph extends LitElement {
             <output for="toSlider" id="toSliderOutput"></output>
           </div>
         </div>
+        <div id="regulationThresholdControl" style="visibility: hidden">
+          <label for="foldChangeCutoffInput">|Fold Change| ></label>
+          <input type="number" id="foldChangeCutoffInput" min="0" step="0.1" />
+          <label for="significanceCutoffInput" id="significanceCutoffLabel"
+            >p Value ≤</label
+          >
+          <input
+            type="number"
+            id="significanceCutoffInput"
+            min="0"
+            max="1"
+            step="0.01"
+          />
+          <label for="volcanoCurvatureInput">Volcano Curvature:</label>
+          <input type="number" id="volcanoCurvatureInput" min="0" step="0.1" />
+        </div>
+        <div id="timepointPlayback" style="visibility: hidden">
+          <button id="timepointBackButton" aria-label="Previous Timepoint">
+            ⏮
+          </button>
+          <button id="timepointPlayButton" aria-label="Play">▶</button>
+          <button id="timepointForwardButton" aria-label="Next Timepoint">
+            ⏭
+          </button>
+          <input
+            type="range"
+            id="timepointSlider"
+            min="0"
+            max="0"
+            value="0"
+            step="1"
+            aria-label="Timepoint"
+          />
+          <output for="timepointSlider" id="timepointOutput"></output>
+        </div>
         <dialog id='add-node-dialog'>
           <form id='add-node-form' novalidate>
             <div class='form-wrapper'>
@@ -596,6 +1584,12 @@ export class BiowcPathwaygraph extends LitElement {
       ['show-up', true],
       ['show-down', true],
       ['show-not', true],
+      ...Object.keys(BiowcPathwaygraph.modificationTypes).map(
+        (modificationType): [string, any] => [
+          `show-type-${modificationType}`,
+          true,
+        ]
+      ),
       ['peptide-label-visibility-map', {}],
       ['kinase-substrate-relationship-visibility-map', {}],
     ]);
@@ -604,8 +1598,32 @@ export class BiowcPathwaygraph extends LitElement {
     super.firstUpdated(_changedProperties);
   }
 
+  disconnectedCallback() {
+    clearInterval(this.playbackIntervalId);
+    super.disconnectedCallback();
+  }
+
   protected updated(_changedProperties: PropertyValues) {
+    // Switching to another condition or filtering the kinase-substrate links only changes the values of the nodes,
+    // so the graph can be updated in place
+    if (
+      _changedProperties.size > 0 &&
+      [..._changedProperties.keys()].every(key =>
+        ['activeCondition', 'kinaseSubstrateLinkFilter'].includes(<string>key)
+      ) &&
+      this.d3Nodes!.length > 0
+    ) {
+      this._applyActiveCondition();
+      this._updateTimepointPlayback();
+      super.updated(_changedProperties);
+      return;
+    }
+
     this.graphdataSkeleton.geneToNodeMap = this._createPathwayGeneToNodeMap();
+    this.geneToNodeMapCaseInsensitive =
+      this._createCaseInsensitiveGeneToNodeMap();
+    this.identifierMappingTableCaseInsensitive =
+      this._createCaseInsensitiveIdentifierMappingTable();
 
     // Map PTM Input to Skeleton Nodes
     this.graphdataPTM = this._addPTMInformationToPathway();
@@ -613,13 +1631,30 @@ export class BiowcPathwaygraph extends LitElement {
     if (this.proteinInputList) {
       this.graphdataSkeleton.nodes = this._addProteinInformationToPathway();
     }
+    // Add Metabolite Data Input to Compound Nodes
+    if (this.metaboliteInputList) {
+      this.graphdataSkeleton.nodes = this._addMetaboliteInformationToPathway();
+    }
 
-    this._createD3GraphObject();
+    this.mappingReport = this._computeMappingReport();
+    this.dispatchEvent(
+      new CustomEvent('mappingReport', {
+        bubbles: true,
+        cancelable: true,
+        detail: this.mappingReport,
+      })
+    );
+
+    this._createD3GraphObject();
+    this._updateKinaseActivityScores();
     this._calculateHueRange();
     if (this.applicationMode === 'viewing') this._renderLegend();
     this._renderGraph();
     this._initContextMenu();
     this._updateRangeSliderVisibility();
+    this._updateRegulationThresholdControl();
+    this._updateTimepointPlayback();
+    this._renderDoseResponsePanel();
 
     // Remind the view that the perturbed nodes are still there by turning them off and on again
     if (this.perturbedNodesVisible) {
@@ -630,6 +1665,97 @@ export class BiowcPathwaygraph extends LitElement {
     super.updated(_changedProperties);
   }
 
+  private _applyActiveCondition() {
+    // In contrast to a full update, the positions of the nodes, their selection and
+    // whether PTMs are expanded are kept, and the nodes fade into their new colors
+    const previousNodeColors = this._getNodeColors();
+    const previousSummaryNodes: { [key: string]: PathwayGraphNodeD3 } = {};
+    const previousSelection: { [key: string]: boolean | undefined } = {};
+    for (const node of this.d3Nodes!) {
+      if (node.type === 'ptm summary') previousSummaryNodes[node.nodeId] = node;
+      previousSelection[node.nodeId] = node.selected;
+    }
+
+    this.graphdataPTM = this._addPTMInformationToPathway();
+    if (this.proteinInputList) {
+      this.graphdataSkeleton.nodes = this._addProteinInformationToPathway();
+    }
+    if (this.metaboliteInputList) {
+      this.graphdataSkeleton.nodes = this._addMetaboliteInformationToPathway();
+    }
+    this._createD3GraphObject();
+    this._updateKinaseActivityScores();
+    // The samples in the heatmap strips are those of the active condition, so their range changes with it
+    if (this.proteinHeatmap?.detailKeys) this._calculateProteinHueRange();
+
+    /* eslint-disable no-param-reassign */
+    this.d3Nodes!.forEach(node => {
+      node.selected = previousSelection[node.nodeId] ?? true;
+    });
+    // Summary nodes are created anew, because the PTMs may have changed their regulation category
+    this.d3Nodes!.filter(node => node.type === 'ptm summary').forEach(node => {
+      const summaryNode = <PTMSummaryNodeD3>node;
+      if (Object.hasOwn(previousSummaryNodes, summaryNode.nodeId)) {
+        summaryNode.x = previousSummaryNodes[summaryNode.nodeId].x;
+        summaryNode.y = previousSummaryNodes[summaryNode.nodeId].y;
+      }
+      // If any of its PTMs were expanded before, all of them are
+      const isExpanded = !!summaryNode.ptmNodes?.some(
+        ptmNode => ptmNode.visible
+      );
+      summaryNode.visible = !isExpanded;
+      summaryNode.ptmNodes?.forEach(ptmNode => {
+        ptmNode.visible = isExpanded;
+      });
+    });
+    /* eslint-enable no-param-reassign */
+
+    if (this.applicationMode === 'viewing') this._renderLegend();
+    this._refreshGraph(this.isNodeExpandAndCollapseAllowed);
+    this._transitionNodeColors(previousNodeColors);
+  }
+
+  private _getNodeColors() {
+    const nodeColors: { [key: string]: { fill: string; stroke: string } } = {};
+    this._getMainDiv()
+      .select('#nodeG')
+      .selectAll<SVGRectElement, PathwayGraphNodeD3>('.node-rect')
+      .each((node, i, rects) => {
+        const { fill, stroke } = getComputedStyle(rects[i]);
+        nodeColors[node.nodeId] = { fill, stroke };
+      });
+    return nodeColors;
+  }
+
+  private _transitionNodeColors(previousNodeColors: {
+    [key: string]: { fill: string; stroke: string };
+  }) {
+    // The new colors come either from an inline style (PTM nodes) or from the CSS classes (gene/protein nodes),
+    // so the transition ends by restoring the inline style
+    this._getMainDiv()
+      .select('#nodeG')
+      .selectAll<SVGRectElement, PathwayGraphNodeD3>('.node-rect')
+      .filter(node => Object.hasOwn(previousNodeColors, node.nodeId))
+      .each((node, i, rects) => {
+        const rect = rects[i];
+        const { fill, stroke } = getComputedStyle(rect);
+        const inlineFill = rect.style.fill;
+        const inlineStroke = rect.style.stroke;
+        d3v6
+          .select(rect)
+          .style('fill', previousNodeColors[node.nodeId].fill)
+          .style('stroke', previousNodeColors[node.nodeId].stroke)
+          .transition()
+          .duration(TIMEPOINT_TRANSITION_DURATION)
+          .style('fill', fill)
+          .style('stroke', stroke)
+          .on('end', () => {
+            rect.style.fill = inlineFill;
+            rect.style.stroke = inlineStroke;
+          });
+      });
+  }
+
   private _initEditModeForms() {
     const addNodeTypeSelect: HTMLSelectElement = this.shadowRoot?.querySelector(
       '#add-node-type-select'
@@ -916,6 +2042,33 @@ export class BiowcPathwaygraph extends LitElement {
     };
   }
 
+  private static _getKinaseSubstrateRelationshipsOfPTM(
+    kinaseSubstrateRelationshipsBySubstrate: {
+      [key: string]: KinaseSubstrateRelationship[];
+    },
+    substrateIds: string[],
+    site?: string | number
+  ) {
+    // Sites are compared without the modification suffix, e.g. 'S42-p' matches 'S42'
+    const normalizeSite = (siteString: string) =>
+      siteString.trim().toUpperCase().replace(/-P$/, '');
+    const sitesOfPTM = String(site ?? '')
+      .split(/[;,]/)
+      .map(normalizeSite)
+      .filter(siteString => siteString !== '');
+    return substrateIds
+      .filter(substrateId =>
+        Object.hasOwn(kinaseSubstrateRelationshipsBySubstrate, substrateId)
+      )
+      .flatMap(substrateId =>
+        kinaseSubstrateRelationshipsBySubstrate[substrateId].filter(
+          relationship =>
+            !relationship.site ||
+            sitesOfPTM.includes(normalizeSite(relationship.site))
+        )
+      );
+  }
+
   private _createPathwayGeneToNodeMap(): { [key: string]: GeneProteinNode[] } {
     const result: { [key: string]: GeneProteinNode[] } = {};
 
@@ -947,6 +2100,175 @@ export class BiowcPathwaygraph extends LitElement {
     return result;
   }
 
+  private _createCaseInsensitiveGeneToNodeMap() {
+    const result: { [key: string]: GeneProteinNode[] } = {};
+    Object.entries(this.graphdataSkeleton.geneToNodeMap || {}).forEach(
+      ([gene, nodes]) => {
+        const key = gene.toLowerCase();
+        result[key] = [...new Set([...(result[key] || []), ...nodes])];
+      }
+    );
+    return result;
+  }
+
+  private _createCaseInsensitiveIdentifierMappingTable() {
+    const result: { [key: string]: string | string[] } = {};
+    if (!this.identifierMapping?.caseInsensitive) return result;
+    // If several keys only differ in case, the first one wins
+    Object.entries(this.identifierMapping.table || {}).forEach(
+      ([identifier, mappedIdentifiers]) => {
+        const key = identifier.toLowerCase();
+        if (!Object.hasOwn(result, key)) result[key] = mappedIdentifiers;
+      }
+    );
+    return result;
+  }
+
+  private _getMatchingGeneProteinNodes(inputEntry: {
+    geneNames?: string[];
+    uniprotAccs?: string[];
+    identifiers?: string[];
+  }): { node: GeneProteinNode; route: PossibleMappingRoute }[] {
+    // Finds the nodes an input entry belongs to. The routes are tried one after the other, and the first one
+    // that finds any node wins, so that aliases cannot add nodes to entries that already match directly:
+    // 1. Uniprot accessions, with the isoform suffix removed if only the canonical protein is in the pathway, and gene names
+    // 2. The same, ignoring case, if identifierMapping.caseInsensitive is set
+    // 3. The identifiers the identifierMapping translates the identifiers of the entry into
+    const geneToNodeMap = this.graphdataSkeleton.geneToNodeMap || {};
+    const caseInsensitive = !!this.identifierMapping?.caseInsensitive;
+    const matches: { node: GeneProteinNode; route: PossibleMappingRoute }[] =
+      [];
+    const addMatches = (
+      gene: string,
+      route: PossibleMappingRoute,
+      lookupMap: { [key: string]: GeneProteinNode[] } = geneToNodeMap
+    ) => {
+      if (!Object.hasOwn(lookupMap, gene)) return false;
+      lookupMap[gene]
+        .filter(node => !matches.some(match => match.node === node))
+        .forEach(node => matches.push({ node, route }));
+      return true;
+    };
+
+    const uniprotAccs = [...new Set(inputEntry.uniprotAccs)].sort();
+    const geneNames = [...new Set(inputEntry.geneNames)].sort();
+    uniprotAccs.forEach(
+      acc =>
+        addMatches(acc, 'uniprot') || addMatches(acc.split('-')[0], 'isoform')
+    );
+    geneNames.forEach(geneName => addMatches(geneName, 'geneName'));
+
+    if (matches.length === 0 && caseInsensitive) {
+      uniprotAccs
+        .map(acc => acc.split('-')[0])
+        .concat(geneNames)
+        .forEach(gene =>
+          addMatches(
+            gene.toLowerCase(),
+            'caseInsensitive',
+            this.geneToNodeMapCaseInsensitive!
+          )
+        );
+    }
+
+    if (matches.length === 0 && this.identifierMapping) {
+      const { resolver } = this.identifierMapping;
+      const table = caseInsensitive
+        ? this.identifierMappingTableCaseInsensitive || {}
+        : this.identifierMapping.table || {};
+      uniprotAccs
+        .concat(geneNames, inputEntry.identifiers || [])
+        .forEach(identifier => {
+          const tableKey = caseInsensitive
+            ? identifier.toLowerCase()
+            : identifier;
+          const mappedIdentifiers = Object.hasOwn(table, tableKey)
+            ? table[tableKey]
+            : resolver?.(identifier);
+          [mappedIdentifiers || []].flat().forEach(mappedIdentifier => {
+            if (
+              !addMatches(mappedIdentifier, 'identifierMapping') &&
+              caseInsensitive
+            ) {
+              addMatches(
+                mappedIdentifier.toLowerCase(),
+                'identifierMapping',
+                this.geneToNodeMapCaseInsensitive!
+              );
+            }
+          });
+        });
+    }
+    return matches;
+  }
+
+  private _computeMappingReportSection(
+    inputList: (PTMInputEntry | ProteinInputEntry)[]
+  ): MappingReportSection {
+    const geneToNodeMap = this.graphdataSkeleton.geneToNodeMap || {};
+    const section: MappingReportSection = {
+      unmapped: [],
+      mappedToMultipleNodes: [],
+      mappedViaIsoformStripping: [],
+      nodeCounts: {},
+      nodeRoutes: {},
+    };
+
+    inputList.forEach((inputEntry, index) => {
+      const matches = this._getMatchingGeneProteinNodes(inputEntry);
+      const nodeIds = matches.map(match => match.node.nodeId);
+      const routes = Object.fromEntries(
+        matches.map(match => [match.node.nodeId, match.route])
+      );
+      const uniprotAccs = [...new Set(inputEntry.uniprotAccs)];
+      // Isoforms that are not in the pathway themselves, but whose canonical form is
+      const strippedIsoforms = Object.values(routes).includes('isoform')
+        ? uniprotAccs.filter(
+            acc =>
+              !Object.hasOwn(geneToNodeMap, acc) &&
+              Object.hasOwn(geneToNodeMap, acc.split('-')[0])
+          )
+        : [];
+      const reportEntry: MappingReportEntry = {
+        index,
+        geneNames: [...new Set(inputEntry.geneNames)],
+        uniprotAccs,
+        nodeIds,
+        routes,
+        strippedIsoforms,
+      };
+
+      if (nodeIds.length === 0) section.unmapped.push(reportEntry);
+      if (nodeIds.length > 1) section.mappedToMultipleNodes.push(reportEntry);
+      if (strippedIsoforms.length > 0) {
+        section.mappedViaIsoformStripping.push(reportEntry);
+      }
+      matches.forEach(({ node, route }) => {
+        section.nodeCounts[node.nodeId] =
+          (section.nodeCounts[node.nodeId] || 0) + 1;
+        section.nodeRoutes[node.nodeId] = [
+          ...new Set([...(section.nodeRoutes[node.nodeId] || []), route]),
+        ];
+      });
+    });
+    return section;
+  }
+
+  private _computeMappingReport(): MappingReport {
+    return {
+      ptmInput: this._computeMappingReportSection(this.ptmInputList || []),
+      proteinInput: this._computeMappingReportSection(
+        this.proteinInputList || []
+      ),
+    };
+  }
+
+  public getMappingReport() {
+    // Tells which input entries could not be placed on the pathway, and which were placed more than once
+    if (!this.mappingReport) this.mappingReport = this._computeMappingReport();
+    return this.mappingReport;
+  }
+
   private _addPTMInformationToPathway(): {
     nodes: (PTMNode | PTMSummaryNode)[];
     links: PathwayGraphLinkInput[];
@@ -959,6 +2281,7 @@ export class BiowcPathwaygraph extends LitElement {
      * that were measured for a protein
      */
 
+    // The keys of the inner dictionaries combine modification type and node ID, so that each type gets its own summary nodes
     // For each gene/protein, we keep score of how many peptides were mapped for each category
     // At the end this will be turned into the summary nodes
     // ESLint complains that 'K' is never used in the next line, but I couldn't find another way to enforce the key to be
@@ -977,12 +2300,56 @@ export class BiowcPathwaygraph extends LitElement {
       links: PathwayGraphLinkInput[];
     } = { nodes: [], links: [] };
 
-    if (this.ptmInputList) {
-      for (const ptmPeptide of this.ptmInputList) {
-        // Keep track of the protein node ids with which this peptide has been associated
-        // Because the mappings are not guaranteed to be injective, we need to prevent a PTM from appearing twice on the same node
-        const geneProteinNodeIdsOfPeptide = new Set();
+    const conditionNames = this._getConditionNames();
+    const activeCondition = this._getActiveCondition();
+
+    const kinaseSubstrateRelationshipsBySubstrate: {
+      [key: string]: KinaseSubstrateRelationship[];
+    } = {};
+    this.kinaseSubstrateRelationships?.forEach(relationship => {
+      const substrate = relationship.substrate.split('-')[0];
+      if (!Object.hasOwn(kinaseSubstrateRelationshipsBySubstrate, substrate)) {
+        kinaseSubstrateRelationshipsBySubstrate[substrate] = [];
+      }
+      kinaseSubstrateRelationshipsBySubstrate[substrate].push(relationship);
+    });
+    const kinaseSubstrateLinks: { [key: string]: PathwayGraphLinkInput } = {};
 
+    if (this.ptmInputList) {
+      for (const [
+        ptmInputIndex,
+        ptmInputEntry,
+      ] of this._getPTMInputEntries().entries()) {
+        const ptmPeptide = BiowcPathwaygraph._getEntryInCondition(
+          ptmInputEntry,
+          activeCondition
+        );
+        const regulation = this._getRegulation(ptmPeptide);
+        // For the split view, the PTM nodes also need to know their values in all other conditions
+        const ptmConditions =
+          conditionNames.length > 1
+            ? Object.fromEntries(
+                conditionNames.map(condition => {
+                  const entryInCondition =
+                    BiowcPathwaygraph._getEntryInCondition(
+                      ptmInputEntry,
+                      condition
+                    );
+                  return [
+                    condition,
+                    {
+                      regulation: this._getRegulation(entryInCondition),
+                      detailsInternal: {
+                        ...BiowcPathwaygraph._trimKeys(
+                          entryInCondition.details!
+                        ),
+                        ...entryInCondition.hiddenDetails,
+                      },
+                    },
+                  ];
+                })
+              )
+            : undefined;
         // Eliminate possible duplicates from the peptides' gene names and uniprot accessions
         const geneNamesUnique = [...new Set(ptmPeptide.geneNames)].sort();
         const uniprotAccsUnique = [...new Set(ptmPeptide.uniprotAccs)].sort();
@@ -991,123 +2358,142 @@ export class BiowcPathwaygraph extends LitElement {
           ...new Set(uniprotAccsUnique.map(entry => entry.split('-')[0])),
         ];
 
-        // Now we map the peptide to a node in the current pathway, using gene names and canonical Uniprot IDs
-        for (const gene of uniprotAccsUniqueOnlyCanonical.concat(
-          geneNamesUnique
-        )) {
+        // The potency hue reads the pEC50 from the details, so it is derived from the EC50 if it is missing there,
+        // whether that is given or fitted to the measured points
+        const ec50 = ptmPeptide.doseResponse
+          ? ptmPeptide.doseResponse.ec50 ??
+            BiowcPathwaygraph._getDoseResponseCurve(ptmPeptide.doseResponse)
+              ?.ec50
+          : undefined;
+
+        // Now we map the peptide to the nodes in the current pathway, see _getMatchingGeneProteinNodes
+        for (const {
+          node: geneProteinNode,
+        } of this._getMatchingGeneProteinNodes(ptmPeptide)) {
+          // The ID only depends on the input, so the node keeps its position when its values change
+          const ptmNodeId = `ptm-${geneProteinNode.nodeId}_${ptmInputIndex}`;
+          const ptmNode: PTMNode = {
+            nodeId: ptmNodeId,
+            type: 'ptm',
+            modificationType: ptmPeptide.modificationType || 'phospho',
+            detailsInternal: {
+              ...BiowcPathwaygraph._trimKeys(ptmPeptide.details!),
+              ...ptmPeptide.hiddenDetails,
+            },
+            detailsForTooltip: ptmPeptide.details,
+            geneNames: geneNamesUnique,
+            uniprotAccs: uniprotAccsUnique,
+            regulation,
+            conditions: ptmConditions,
+            contributingPeptides: (<AggregatedPTMInputEntry>(
+              ptmInputEntry
+            )).contributingPeptides?.map(peptide => ({
+              ...BiowcPathwaygraph._getEntryInCondition(
+                peptide,
+                activeCondition
+              ).details,
+            })),
+            doseResponse: ptmPeptide.doseResponse,
+            geneProteinNodeId: geneProteinNode.nodeId,
+            x: geneProteinNode.x,
+            y: geneProteinNode.y,
+          };
+          if (ec50 && !Object.hasOwn(ptmNode.detailsInternal!, '-log(EC50)')) {
+            ptmNode.detailsInternal!['-log(EC50)'] = -Math.log10(ec50);
+          }
+          graphdataPTM.nodes.push(ptmNode);
+          graphdataPTM.links.push({
+            linkId: `ptmlink-${ptmNodeId}`,
+            sourceId: ptmNode.nodeId,
+            targetId: geneProteinNode.nodeId,
+            types: ['ptmlink'],
+          });
+          // Increase the summary counter
+          const summaryKey = `${ptmNode.modificationType}-${geneProteinNode.nodeId}`;
+          switch (regulation) {
+            case 'up':
+              if (
+                !Object.hasOwn(geneProtein2RegulationCategory.up, summaryKey)
+              ) {
+                geneProtein2RegulationCategory.up[summaryKey] = [];
+              }
+              geneProtein2RegulationCategory.up[summaryKey].push(ptmNode);
+              break;
+            case 'down':
+              if (
+                !Object.hasOwn(geneProtein2RegulationCategory.down, summaryKey)
+              ) {
+                geneProtein2RegulationCategory.down[summaryKey] = [];
+              }
+              geneProtein2RegulationCategory.down[summaryKey].push(ptmNode);
+              break;
+            case 'not':
+              if (
+                !Object.hasOwn(geneProtein2RegulationCategory.not, summaryKey)
+              ) {
+                geneProtein2RegulationCategory.not[summaryKey] = [];
+              }
+              geneProtein2RegulationCategory.not[summaryKey].push(ptmNode);
+              break;
+            default:
+              break;
+          }
+          // Link the PTM node to its upstream kinases, from its details and from the kinase-substrate relationships
+          const upstreamKinases: Pick<
+            KinaseSubstrateRelationship,
+            'kinase' | 'source' | 'score'
+          >[] = [];
           if (
-            this.graphdataSkeleton.geneToNodeMap &&
-            Object.hasOwn(this.graphdataSkeleton.geneToNodeMap, gene)
+            ptmNode.detailsInternal &&
+            ptmNode.detailsInternal!['Upstream Kinase(s)']
           ) {
-            for (const geneProteinNode of this.graphdataSkeleton.geneToNodeMap[
-              gene
-            ]) {
-              // Only proceed if the node has not yet been associated with this peptide
-              if (!geneProteinNodeIdsOfPeptide.has(geneProteinNode.nodeId)) {
-                geneProteinNodeIdsOfPeptide.add(geneProteinNode.nodeId);
-                const ptmNodeId = `ptm-${geneProteinNode.nodeId}_${
-                  crypto.getRandomValues(new Uint32Array(1))[0]
-                }`;
-                const ptmNode = {
-                  nodeId: ptmNodeId,
-                  type: 'ptm',
-                  detailsInternal: {
-                    ...BiowcPathwaygraph._trimKeys(ptmPeptide.details!),
-                    ...ptmPeptide.hiddenDetails,
-                  },
-                  detailsForTooltip: ptmPeptide.details,
-                  geneNames: geneNamesUnique,
-                  uniprotAccs: uniprotAccsUnique,
-                  regulation: ptmPeptide.regulation,
-                  geneProteinNodeId: geneProteinNode.nodeId,
-                  x: geneProteinNode.x,
-                  y: geneProteinNode.y,
+            upstreamKinases.push(
+              ...(<String>ptmNode.detailsInternal!['Upstream Kinase(s)'])
+                .split(', ')
+                .map(kinase => ({ kinase, source: 'PTM Input' }))
+            );
+          }
+          // The kinase-substrate relationships describe phosphorylations, so they don't apply to the other modification types
+          if (ptmNode.modificationType === 'phospho') {
+            upstreamKinases.push(
+              ...BiowcPathwaygraph._getKinaseSubstrateRelationshipsOfPTM(
+                kinaseSubstrateRelationshipsBySubstrate,
+                uniprotAccsUniqueOnlyCanonical.concat(geneNamesUnique),
+                ptmNode.detailsInternal!.Site
+              )
+            );
+          }
+          for (const upstreamKinase of upstreamKinases) {
+            for (const {
+              node: upstreamKinaseNode,
+            } of this._getMatchingGeneProteinNodes({
+              geneNames: [upstreamKinase.kinase],
+            })) {
+              const linkId = `kinaseSubstrateLink-${upstreamKinaseNode.nodeId}-${ptmNodeId}`;
+              // The same relationship may be annotated in several sources, they are merged into one link
+              if (!Object.hasOwn(kinaseSubstrateLinks, linkId)) {
+                kinaseSubstrateLinks[linkId] = {
+                  linkId,
+                  sourceId: upstreamKinaseNode.nodeId,
+                  targetId: ptmNodeId,
+                  types: ['kinaseSubstrateLink'],
+                  sources: [],
+                  // label: `${kinase} +(ph)` //Looks a bit messy maybe
                 };
-                graphdataPTM.nodes.push(ptmNode);
-                graphdataPTM.links.push({
-                  linkId: `ptmlink-${ptmNodeId}`,
-                  sourceId: ptmNode.nodeId,
-                  targetId: geneProteinNode.nodeId,
-                  types: ['ptmlink'],
-                });
-                // Increase the summary counter
-                switch (ptmPeptide.regulation) {
-                  case 'up':
-                    if (
-                      !Object.hasOwn(
-                        geneProtein2RegulationCategory.up,
-                        geneProteinNode.nodeId
-                      )
-                    ) {
-                      geneProtein2RegulationCategory.up[
-                        geneProteinNode.nodeId
-                      ] = [];
-                    }
-                    geneProtein2RegulationCategory.up[
-                      geneProteinNode.nodeId
-                    ].push(ptmNode);
-                    break;
-                  case 'down':
-                    if (
-                      !Object.hasOwn(
-                        geneProtein2RegulationCategory.down,
-                        geneProteinNode.nodeId
-                      )
-                    ) {
-                      geneProtein2RegulationCategory.down[
-                        geneProteinNode.nodeId
-                      ] = [];
-                    }
-                    geneProtein2RegulationCategory.down[
-                      geneProteinNode.nodeId
-                    ].push(ptmNode);
-                    break;
-                  case 'not':
-                    if (
-                      !Object.hasOwn(
-                        geneProtein2RegulationCategory.not,
-                        geneProteinNode.nodeId
-                      )
-                    ) {
-                      geneProtein2RegulationCategory.not[
-                        geneProteinNode.nodeId
-                      ] = [];
-                    }
-                    geneProtein2RegulationCategory.not[
-                      geneProteinNode.nodeId
-                    ].push(ptmNode);
-                    break;
-                  default:
-                    break;
-                }
-                // Check if the PTM node has Upstream kinase annotations
-                if (
-                  ptmNode.detailsInternal &&
-                  ptmNode.detailsInternal!['Upstream Kinase(s)']
-                ) {
-                  const currentUpstreamKinases = (<String>(
-                    ptmNode.detailsInternal!['Upstream Kinase(s)']
-                  )).split(', ');
-                  for (const kinase of currentUpstreamKinases) {
-                    if (
-                      Object.hasOwn(
-                        this.graphdataSkeleton.geneToNodeMap!,
-                        kinase
-                      )
-                    ) {
-                      for (const upstreamKinaseNode of this.graphdataSkeleton
-                        .geneToNodeMap[kinase]) {
-                        graphdataPTM.links.push({
-                          linkId: `kinaseSubstrateLink-${upstreamKinaseNode.nodeId}-${ptmNodeId}`,
-                          sourceId: upstreamKinaseNode.nodeId,
-                          targetId: ptmNodeId,
-                          types: ['kinaseSubstrateLink'],
-                          // label: `${kinase} +(ph)` //Looks a bit messy maybe
-                        });
-                      }
-                    }
-                  }
-                }
+              }
+              const kinaseSubstrateLink = kinaseSubstrateLinks[linkId];
+              if (
+                upstreamKinase.source &&
+                !kinaseSubstrateLink.sources!.includes(upstreamKinase.source)
+              ) {
+                kinaseSubstrateLink.sources!.push(upstreamKinase.source);
+              }
+              if (
+                upstreamKinase.score !== undefined &&
+                (kinaseSubstrateLink.score === undefined ||
+                  upstreamKinase.score > kinaseSubstrateLink.score)
+              ) {
+                kinaseSubstrateLink.score = upstreamKinase.score;
               }
             }
           }
@@ -1115,22 +2501,34 @@ export class BiowcPathwaygraph extends LitElement {
       }
     }
 
+    graphdataPTM.links.push(...Object.values(kinaseSubstrateLinks));
+
     // After looping, we can add a node and a link for each summary node
     for (const [regulationCategory, dict] of Object.entries(
       geneProtein2RegulationCategory
     )) {
       for (const ptmNodeList of Object.values(dict)) {
         // We want to get the gene/protein node that these ptmNodes map to
-        // The keys of geneProtein2Upregulated are only the IDs of these nodes, so we use a trick:
+        // The keys of geneProtein2RegulationCategory only combine modification type and node ID, so we use a trick:
         // Each ptmNode holds the protein node as a property
         // They are all the same, so we just use the first one
         // And the list cannot be empty because of the way we constructed it above
         const firstPTM = ptmNodeList[0];
+        // Phosphorylation summary nodes keep the plain IDs and labels, the other types are marked by their abbreviation
+        const { modificationType } = firstPTM;
+        const summaryId =
+          modificationType === 'phospho'
+            ? `ptm-summary-${regulationCategory}-${firstPTM.geneProteinNodeId}`
+            : `ptm-summary-${modificationType}-${regulationCategory}-${firstPTM.geneProteinNodeId}`;
         const summaryNode: PTMSummaryNode = {
-          nodeId: `ptm-summary-${regulationCategory}-${firstPTM.geneProteinNodeId}`,
+          nodeId: summaryId,
           type: 'ptm summary',
-          label: `${ptmNodeList.length}`,
+          label:
+            modificationType === 'phospho'
+              ? `${ptmNodeList.length}`
+              : `${BiowcPathwaygraph.modificationTypes[modificationType].abbreviation} ${ptmNodeList.length}`,
           geneProteinNodeId: firstPTM.geneProteinNodeId,
+          modificationType,
           ptmNodeIds: ptmNodeList.map(ptmnode => ptmnode.nodeId),
           regulation: regulationCategory as PossibleRegulationCategoriesType,
           x: firstPTM.x,
@@ -1142,7 +2540,7 @@ export class BiowcPathwaygraph extends LitElement {
           ptmNode.summaryNodeId = summaryNode.nodeId;
         }
         graphdataPTM.links.push({
-          linkId: `ptm-summary-${regulationCategory}-${firstPTM.geneProteinNodeId}`,
+          linkId: summaryId,
           types: ['ptmlink', 'summary'],
           sourceId: summaryNode.nodeId,
           targetId: firstPTM.geneProteinNodeId,
@@ -1161,100 +2559,236 @@ export class BiowcPathwaygraph extends LitElement {
       (<GeneProteinNode>node).nDown = 0;
       (<GeneProteinNode>node).nUp = 0;
       (<GeneProteinNode>node).nNot = 0;
+      // The details are concatenated below, so they have to be reset as well - otherwise they would pile up with every update
+      (<GeneProteinNode>node).detailsInternal = undefined;
+      (<GeneProteinNode>node).detailsForTooltip = undefined;
+      (<GeneProteinNode>node).heatmapValues = undefined;
     }
 
     if (this.proteinInputList) {
-      for (const proteinInputEntry of this.proteinInputList) {
-        // In analogy to the addPTMInformation function:
-        // Keep track of the gene/protein node ids with which this gene/protein has been associated
-        // In case node is represented by both Uniprot and Genename we could otherwise match it twice here
-        const geneProteinNodeIdsOfEntry = new Set();
-        const geneNamesUnique = [...new Set(proteinInputEntry.geneNames)];
-        const uniprotAccsUniqueOnlyCanonical = [
-          ...new Set(
-            proteinInputEntry.uniprotAccs?.map(entry => entry.split('-')[0])
+      const activeCondition = this._getActiveCondition();
+      for (const proteinInput of this.proteinInputList) {
+        const proteinInputEntry = BiowcPathwaygraph._getEntryInCondition(
+          proteinInput,
+          activeCondition
+        );
+        const regulation = this._getRegulation(proteinInputEntry);
+        // In analogy to the addPTMInformation function, see _getMatchingGeneProteinNodes
+        for (const {
+          node: geneProteinNode,
+        } of this._getMatchingGeneProteinNodes(proteinInputEntry)) {
+          const nodesDictEntry = <GeneProteinNode>(
+            nodesDict[geneProteinNode.nodeId]
+          );
+          switch (regulation) {
+            case 'down':
+              nodesDictEntry.nDown = (nodesDictEntry.nDown || 0) + 1;
+              break;
+            case 'up':
+              nodesDictEntry.nUp = (nodesDictEntry.nUp || 0) + 1;
+              break;
+            case 'not':
+              nodesDictEntry.nNot = (nodesDictEntry.nNot || 0) + 1;
+              break;
+            default:
+              break;
+          }
+
+          BiowcPathwaygraph._concatenateDetails(
+            nodesDictEntry,
+            proteinInputEntry
+          );
+          if (this.proteinHeatmap) {
+            this._addProteinHeatmapValues(
+              nodesDictEntry,
+              proteinInput,
+              proteinInputEntry
+            );
+          }
+        }
+      }
+    }
+
+    return Object.values(nodesDict);
+  }
+
+  private _addProteinHeatmapValues(
+    node: GeneProteinNode,
+    proteinInput: ProteinInputEntry,
+    proteinInputEntry: ProteinInputEntry
+  ) {
+    /* eslint-disable no-param-reassign */
+    const { detailKeys } = this.proteinHeatmap!;
+    const valueKey = this._getProteinHeatmapValueKey();
+    // Samples are taken from the active condition, conditions from the values of the respective condition
+    const cells: [string, number][] = detailKeys
+      ? detailKeys.map(detailKey => [
+          detailKey,
+          BiowcPathwaygraph._getInputEntryValue(proteinInputEntry, detailKey),
+        ])
+      : this._getConditionNames().map(condition => [
+          condition,
+          BiowcPathwaygraph._getInputEntryValue(
+            BiowcPathwaygraph._getEntryInCondition(proteinInput, condition),
+            valueKey
           ),
+        ]);
+    node.heatmapValues = node.heatmapValues || {};
+    cells
+      .filter(([, value]) => !Number.isNaN(value))
+      .forEach(([cellName, value]) => {
+        node.heatmapValues![cellName] = [
+          ...(node.heatmapValues![cellName] || []),
+          value,
         ];
+      });
+    /* eslint-enable no-param-reassign */
+  }
 
-        for (const gene of uniprotAccsUniqueOnlyCanonical.concat(
-          geneNamesUnique
-        )) {
-          if (
-            this.graphdataSkeleton.geneToNodeMap &&
-            Object.hasOwn(this.graphdataSkeleton.geneToNodeMap, gene)
-          ) {
-            for (const geneProteinNode of this.graphdataSkeleton.geneToNodeMap[
-              gene
-            ]) {
-              const nodesDictEntry = <GeneProteinNode>(
-                nodesDict[geneProteinNode.nodeId]
-              );
-              // Only proceed if the node has not yet been associated with this protein
-              if (!geneProteinNodeIdsOfEntry.has(geneProteinNode.nodeId)) {
-                geneProteinNodeIdsOfEntry.add(geneProteinNode.nodeId);
-                switch (proteinInputEntry.regulation) {
-                  case 'down':
-                    nodesDictEntry.nDown = (nodesDictEntry.nDown || 0) + 1;
-                    break;
-                  case 'up':
-                    nodesDictEntry.nUp = (nodesDictEntry.nUp || 0) + 1;
-                    break;
-                  case 'not':
-                    nodesDictEntry.nNot = (nodesDictEntry.nNot || 0) + 1;
-                    break;
-                  default:
-                    break;
-                }
+  private _getProteinHeatmapValueKey() {
+    return (
+      this.proteinHeatmap?.valueKey ||
+      this.proteinColorKey ||
+      {
+        ...BiowcPathwaygraph.defaultRegulationThresholds,
+        ...this.regulationThresholds,
+      }.foldChangeKey
+    );
+  }
 
-                // Concatenate the details
-                if (proteinInputEntry.details) {
-                  const entryDetailsInternal = {
-                    ...BiowcPathwaygraph._trimKeys(proteinInputEntry.details!),
-                    ...proteinInputEntry.hiddenDetails,
-                  };
-                  const entryDetailsForTooltip = proteinInputEntry.details;
-
-                  nodesDictEntry.detailsInternal =
-                    nodesDictEntry.detailsInternal || {};
-                  Object.keys(entryDetailsInternal).forEach(detailKey => {
-                    if (
-                      Object.hasOwn(nodesDictEntry.detailsInternal!, detailKey)
-                    ) {
-                      nodesDictEntry.detailsInternal![detailKey] = `${String(
-                        nodesDictEntry.detailsInternal![detailKey]
-                      )},${String(entryDetailsInternal[detailKey])}`;
-                    } else {
-                      nodesDictEntry.detailsInternal![detailKey] =
-                        entryDetailsInternal[detailKey];
-                    }
-                  });
+  private static _getInputEntryValue(
+    inputEntry: PTMInputEntry | ProteinInputEntry | MetaboliteInputEntry,
+    detailKey: string
+  ) {
+    const details: { [key: string]: string | number } = {
+      ...BiowcPathwaygraph._trimKeys(inputEntry.details!),
+      ...inputEntry.hiddenDetails,
+    };
+    const value = details[detailKey];
+    return value === undefined || value === '' ? NaN : Number(value);
+  }
 
-                  nodesDictEntry.detailsForTooltip =
-                    nodesDictEntry.detailsForTooltip || {};
-                  Object.keys(entryDetailsForTooltip).forEach(detailKey => {
-                    if (
-                      Object.hasOwn(
-                        nodesDictEntry.detailsForTooltip!,
-                        detailKey
-                      )
-                    ) {
-                      nodesDictEntry.detailsForTooltip![detailKey] = `${String(
-                        nodesDictEntry.detailsForTooltip![detailKey]
-                      )},${String(entryDetailsForTooltip[detailKey])}`;
-                    } else {
-                      nodesDictEntry.detailsForTooltip![detailKey] =
-                        entryDetailsForTooltip[detailKey];
-                    }
-                  });
-                }
-              }
-            }
-          }
+  private static _concatenateDetails(
+    node: GeneProteinNode | CompoundNode,
+    inputEntry: ProteinInputEntry | MetaboliteInputEntry
+  ) {
+    /* eslint-disable no-param-reassign */
+    // Several input entries can be mapped to the same node, their details are joined by commas
+    if (!inputEntry.details) return;
+    const entryDetailsInternal: { [key: string]: string | number } = {
+      ...BiowcPathwaygraph._trimKeys(inputEntry.details!),
+      ...inputEntry.hiddenDetails,
+    };
+    const entryDetailsForTooltip = inputEntry.details;
+
+    node.detailsInternal = node.detailsInternal || {};
+    Object.keys(entryDetailsInternal).forEach(detailKey => {
+      if (Object.hasOwn(node.detailsInternal!, detailKey)) {
+        node.detailsInternal![detailKey] = `${String(
+          node.detailsInternal![detailKey]
+        )},${String(entryDetailsInternal[detailKey])}`;
+      } else {
+        node.detailsInternal![detailKey] = entryDetailsInternal[detailKey];
+      }
+    });
+
+    node.detailsForTooltip = node.detailsForTooltip || {};
+    Object.keys(entryDetailsForTooltip).forEach(detailKey => {
+      if (Object.hasOwn(node.detailsForTooltip!, detailKey)) {
+        node.detailsForTooltip![detailKey] = `${String(
+          node.detailsForTooltip![detailKey]
+        )},${String(entryDetailsForTooltip[detailKey])}`;
+      } else {
+        node.detailsForTooltip![detailKey] = entryDetailsForTooltip[detailKey];
+      }
+    });
+    /* eslint-enable no-param-reassign */
+  }
+
+  private static _normalizeCompoundIdentifier(identifier: string) {
+    // Identifiers are compared regardless of case and database prefix ('CHEBI:15377', 'cpd:C00001'),
+    // and HMDB ids in the old five-digit format are padded to the current seven digits
+    return identifier
+      .trim()
+      .toUpperCase()
+      .replace(/^(CHEBI|CPD|INCHIKEY)[:=]/, '')
+      .replace(/^HMDB(\d{5})$/, 'HMDB00$1');
+  }
+
+  private _createPathwayCompoundToNodeMap() {
+    // In analogy to the geneToNodeMap, maps names and identifiers of compounds to compound nodes
+    const result: { [key: string]: CompoundNode[] } = {};
+    this.graphdataSkeleton.nodes
+      .filter(node => node.type === 'compound')
+      .forEach(node => {
+        const compoundNode = <CompoundNode>node;
+        const identifiers = new Set(
+          [
+            ...(compoundNode.label ? [compoundNode.label] : []),
+            ...BiowcPathwaygraph.compoundIdentifierFields.flatMap(
+              field => compoundNode[field] || []
+            ),
+          ].map(BiowcPathwaygraph._normalizeCompoundIdentifier)
+        );
+        identifiers.forEach(identifier => {
+          if (!Object.hasOwn(result, identifier)) result[identifier] = [];
+          result[identifier].push(compoundNode);
+        });
+      });
+    return result;
+  }
+
+  private _addMetaboliteInformationToPathway(): PathwayGraphNode[] {
+    // In analogy to _addProteinInformationToPathway, for compound nodes
+    const compoundToNodeMap = this._createPathwayCompoundToNodeMap();
+    const compoundNodes = <CompoundNode[]>(
+      this.graphdataSkeleton.nodes.filter(node => node.type === 'compound')
+    );
+    for (const compoundNode of compoundNodes) {
+      compoundNode.nDown = 0;
+      compoundNode.nUp = 0;
+      compoundNode.nNot = 0;
+      compoundNode.detailsInternal = undefined;
+      compoundNode.detailsForTooltip = undefined;
+    }
+
+    const activeCondition = this._getActiveCondition();
+    for (const metaboliteInput of this.metaboliteInputList || []) {
+      const metaboliteInputEntry = BiowcPathwaygraph._getEntryInCondition(
+        metaboliteInput,
+        activeCondition
+      );
+      const regulation = this._getRegulation(metaboliteInputEntry);
+      // A metabolite that matches a node by several identifiers still counts only once
+      const matchingNodes = new Set(
+        BiowcPathwaygraph.compoundIdentifierFields
+          .flatMap(field => metaboliteInputEntry[field] || [])
+          .map(BiowcPathwaygraph._normalizeCompoundIdentifier)
+          .filter(identifier => Object.hasOwn(compoundToNodeMap, identifier))
+          .flatMap(identifier => compoundToNodeMap[identifier])
+      );
+      for (const compoundNode of matchingNodes) {
+        switch (regulation) {
+          case 'down':
+            compoundNode.nDown = (compoundNode.nDown || 0) + 1;
+            break;
+          case 'up':
+            compoundNode.nUp = (compoundNode.nUp || 0) + 1;
+            break;
+          case 'not':
+            compoundNode.nNot = (compoundNode.nNot || 0) + 1;
+            break;
+          default:
+            break;
         }
+        BiowcPathwaygraph._concatenateDetails(
+          compoundNode,
+          metaboliteInputEntry
+        );
       }
     }
 
-    return Object.values(nodesDict);
+    return this.graphdataSkeleton.nodes;
   }
 
   private _createD3GraphObject() {
@@ -1323,6 +2857,31 @@ export class BiowcPathwaygraph extends LitElement {
           existingNode.label = (<GeneProteinNode>node).label;
           existingNode.geneNames = (<GeneProteinNode>node).geneNames;
           existingNode.uniprotAccs = (<GeneProteinNode>node).uniprotAccs;
+          BiowcPathwaygraph.compoundIdentifierFields.forEach(field => {
+            (<CompoundNodeD3>(<PathwayGraphNodeD3>existingNode))[field] = (<
+              CompoundNode
+            >node)[field];
+          });
+          existingNode.detailsInternal = (<GeneProteinNode>(
+            node
+          )).detailsInternal;
+          existingNode.detailsForTooltip = (<GeneProteinNode>(
+            node
+          )).detailsForTooltip;
+          existingNode.heatmapValues = (<GeneProteinNode>node).heatmapValues;
+          // PTM nodes keep their IDs when switching between conditions, so their values need to be updated
+          if (node.type === 'ptm') {
+            const existingPTMNode = <PTMNodeD3>(
+              (<PathwayGraphNodeD3>existingNode)
+            );
+            existingPTMNode.regulation = (<PTMNode>node).regulation;
+            existingPTMNode.conditions = (<PTMNode>node).conditions;
+            existingPTMNode.modificationType = (<PTMNode>node).modificationType;
+            existingPTMNode.contributingPeptides = (<PTMNode>(
+              node
+            )).contributingPeptides;
+            existingPTMNode.doseResponse = (<PTMNode>node).doseResponse;
+          }
           [existingNode.currentDisplayedLabel] =
             BiowcPathwaygraph._calcPossibleLabels(<GeneProteinNodeD3>node);
         }
@@ -1342,6 +2901,8 @@ export class BiowcPathwaygraph extends LitElement {
           const existingLink: PathwayGraphLinkD3 = d3LinksDict[link.linkId];
           existingLink.label = link.label;
           existingLink.types = link.types;
+          existingLink.sources = link.sources;
+          existingLink.score = link.score;
         }
       });
 
@@ -1466,7 +3027,7 @@ export class BiowcPathwaygraph extends LitElement {
 
       // Now we can set the permission flag for the 'expandAll' and 'collapseAll' functions to true
       this.isNodeExpandAndCollapseAllowed = true;
-      if (this.hue === 'foldchange' || this.hue === 'potency') {
+      if (this._getHueMode()) {
         this.expandAllPTMNodes();
       }
     }, 2000);
@@ -1496,13 +3057,7 @@ export class BiowcPathwaygraph extends LitElement {
             }
             // For the PTM nodes, we need to check the current state of the context menu - which categories are shown?
             const ptmnode = <PTMNodeD3 | PTMSummaryNodeD3>node;
-            const showPtmNode =
-              (ptmnode.regulation === 'up' &&
-                this.contextMenuStore?.get('show-up')) ||
-              (ptmnode.regulation === 'down' &&
-                this.contextMenuStore?.get('show-down')) ||
-              (ptmnode.regulation === 'not' &&
-                this.contextMenuStore?.get('show-not'));
+            const showPtmNode = this._isPTMNodeShown(ptmnode);
             // A node that is not shown cannot be selected
             if (!showPtmNode) ptmnode.selected = false;
             return showPtmNode;
@@ -1531,10 +3086,25 @@ export class BiowcPathwaygraph extends LitElement {
             d
           )} ${d.isEditHighlighted ? 'edit-highlight' : ''}
           ${this._computeIsPerturbed(d)}
+          ${(<PTMNodeD3 | PTMSummaryNodeD3>d).modificationType || ''}
           `
       )
-      .attr('rx', NODE_HEIGHT)
-      .attr('ry', NODE_HEIGHT)
+      .attr('rx', d =>
+        d.type === 'ptm'
+          ? BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).cornerRadius
+          : NODE_HEIGHT
+      )
+      .attr('ry', d =>
+        d.type === 'ptm'
+          ? BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).cornerRadius
+          : NODE_HEIGHT
+      )
+      .attr('transform', d =>
+        d.type === 'ptm' &&
+        BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).rotation
+          ? `rotate(${BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).rotation})`
+          : null
+      )
       .style('fill', d => this._computeNodeColor(d));
 
     // Add labels to the nodes
@@ -1579,25 +3149,128 @@ export class BiowcPathwaygraph extends LitElement {
       .selectAll('.node-rect')
       .attr('x', d =>
         (<PathwayGraphNodeD3>d).type === 'ptm'
-          ? -0.5 * PTM_NODE_WIDTH
+          ? -0.5 * BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).width
           : (<PathwayGraphNodeD3>d).rectX!
       )
       .attr('y', d =>
         (<PathwayGraphNodeD3>d).type === 'ptm'
-          ? -0.5 * PTM_NODE_HEIGHT
+          ? -0.5 * BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).height
           : -NODE_HEIGHT
       )
       .attr('width', d =>
         (<PathwayGraphNodeD3>d).type === 'ptm'
-          ? PTM_NODE_WIDTH
+          ? BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).width
           : (<PathwayGraphNodeD3>d).rectWidth!
       )
       .attr('height', d =>
         (<PathwayGraphNodeD3>d).type === 'ptm'
-          ? PTM_NODE_HEIGHT
+          ? BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).height
           : NODE_HEIGHT * 2
       );
 
+    // Gene/protein nodes can show their values in several conditions or samples in a strip under their label
+    nodesSvg.selectAll('.protein-heatmap').remove();
+    const { style: heatmapStyle, minZoom } = {
+      ...BiowcPathwaygraph.defaultProteinHeatmapOptions,
+      ...this.proteinHeatmap,
+    };
+    const proteinCenter = this._getProteinHueMode().center ?? 0;
+    const proteinMaxDeviation = Math.max(
+      this.maxPosProteinValue! - proteinCenter,
+      proteinCenter - this.maxNegProteinValue!
+    );
+    // Bars grow from the bottom of the strip, by their distance from the center of the scale
+    const getCellHeight = (value: number) => {
+      if (heatmapStyle !== 'bars') return PROTEIN_HEATMAP_HEIGHT;
+      if (Number.isNaN(value) || proteinMaxDeviation === 0) return 0;
+      return (
+        (2 * PROTEIN_HEATMAP_HEIGHT * Math.abs(value - proteinCenter)) /
+        proteinMaxDeviation
+      );
+    };
+    nodesSvg
+      .filter(
+        d =>
+          d.type === 'gene_protein' &&
+          this._getProteinHeatmapCells(d).length > 0
+      )
+      .append('g')
+      .attr('class', `protein-heatmap ${heatmapStyle}`)
+      .attr(
+        'display',
+        d3v6.zoomTransform(this._getMainDiv().node()!).k < minZoom!
+          ? 'none'
+          : null
+      )
+      .selectAll('rect')
+      .data(d => {
+        const cells = this._getProteinHeatmapCells(d);
+        const cellWidth = d.rectWidth! / cells.length;
+        return cells.map((cell, i) => ({
+          ...cell,
+          x: d.rectX! + i * cellWidth,
+          width: cellWidth,
+        }));
+      })
+      .join('rect')
+      .attr('class', 'protein-heatmap-cell')
+      .attr('x', cell => cell.x)
+      .attr('width', cell => cell.width)
+      .attr(
+        'y',
+        cell =>
+          NODE_HEIGHT +
+          1 +
+          (heatmapStyle === 'bars' ? 2 * PROTEIN_HEATMAP_HEIGHT : 0) -
+          (heatmapStyle === 'bars' ? getCellHeight(cell.value) : 0)
+      )
+      .attr('height', cell => getCellHeight(cell.value))
+      .style('fill', cell => this._computeProteinColor(cell.value))
+      .append('title')
+      .text(cell => `${cell.cellName}: ${cell.value}`);
+
+    // In the split view, PTM nodes are divided into one segment per condition, each colored by the values of its condition
+    nodesSvg.selectAll('.ptm-condition-segments').remove();
+    if (this.isConditionSplitViewActive) {
+      nodesSvg
+        .filter(d => d.type === 'ptm' && !!(<PTMNodeD3>d).conditions)
+        .append('g')
+        .attr('class', 'ptm-condition-segments')
+        .attr(
+          'clip-path',
+          d =>
+            `url(#ptmNodeClipPath-${
+              (<PTMNodeD3>d).modificationType || 'phospho'
+            })`
+        )
+        // The clip path is not rotated, so the whole group is
+        .attr('transform', d =>
+          BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).rotation
+            ? `rotate(${BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d).rotation})`
+            : null
+        )
+        .selectAll('rect')
+        .data(d =>
+          BiowcPathwaygraph._getPTMNodeInAllConditions(<PTMNodeD3>d).map(
+            segment => ({
+              ...segment,
+              glyph: BiowcPathwaygraph._getPTMGlyph(<PTMNodeD3>d),
+            })
+          )
+        )
+        .join('rect')
+        .attr('class', d => `ptm-condition-segment ${d.regulation}`)
+        .attr(
+          'x',
+          (d, i, segments) =>
+            -0.5 * d.glyph.width + (i * d.glyph.width) / segments.length
+        )
+        .attr('y', d => -0.5 * d.glyph.height)
+        .attr('width', (d, i, segments) => d.glyph.width / segments.length)
+        .attr('height', d => d.glyph.height)
+        .style('fill', d => this._computeNodeColor(d));
+    }
+
     // Initialize paths for the group nodes
     // The actual polygons are drawn in the 'tick' callback of addAnimation
     nodesSvg.selectAll('.group-path').remove();
@@ -1641,7 +3314,8 @@ export class BiowcPathwaygraph extends LitElement {
         ptmnode.selected &&
         this.contextMenuStore?.get(
           'kinase-substrate-relationship-visibility-map'
-        )[visibilityMapKey]
+        )[visibilityMapKey] &&
+        this._isKinaseSubstrateLinkIncluded(linkD3)
       );
     };
 
@@ -2133,6 +3807,8 @@ export class BiowcPathwaygraph extends LitElement {
             : null
         );
 
+      this._updateDetailCardLeaders();
+
       // const myGroup = this._getMainDiv().select('#nodeG').select('.group')
       // if(myGroup.attr('transform')) {
       //
@@ -2182,62 +3858,73 @@ export class BiowcPathwaygraph extends LitElement {
       // Hide the tooltip initially
       .style('opacity', '0');
 
+    // The content is rendered by Lit, so that renderers and slots can provide templates
+    const setTooltipContent = (content: string | TemplateResult) => {
+      render(
+        typeof content === 'string' ? html`${unsafeHTML(content)}` : content,
+        tooltip.node()!
+      );
+      tooltip
+        .style('visibility', null)
+        .transition()
+        .duration(0)
+        .style('opacity', '1');
+    };
+    // Hidden tooltips are also invisible to the mouse, so that their links cannot be clicked
+    const hideTooltip = () => {
+      tooltip
+        .style('visibility', 'hidden')
+        .transition()
+        .duration(0)
+        .style('opacity', '0');
+    };
+    let hideTimeoutId: NodeJS.Timeout | undefined;
+
     const mouseenter = (
       e: MouseEvent,
       nodeOrLink: PathwayGraphNodeD3 | PathwayGraphLinkD3
     ) => {
+      clearTimeout(hideTimeoutId);
       const classesOfTarget = (<HTMLElement>e.target)?.classList;
       if (tooltip.attr('is-dragging') === 'false') {
         if (classesOfTarget.contains('link')) {
           const link = nodeOrLink as PathwayGraphLinkD3;
           if (link.types && link.types.length > 0) {
-            tooltip.html(`<strong>Type(s):</strong> ${link.types.join(', ')}`);
-            tooltip.transition().duration(0).style('opacity', '1');
+            setTooltipContent(
+              `<strong>Type(s):</strong> ${link.types.join(', ')}${
+                link.sources && link.sources.length > 0
+                  ? `<br><strong>Source(s):</strong> ${link.sources.join(', ')}`
+                  : ''
+              }${
+                link.score !== undefined
+                  ? `<br><strong>Score:</strong> ${link.score}`
+                  : ''
+              }`
+            );
           }
         } else {
           const node = nodeOrLink as PathwayGraphNodeD3;
-          if (node.type === 'ptm') {
-            tooltip.html(
-              BiowcPathwaygraph._getPTMTooltipText(node as PTMNodeD3)
-            );
-          } else if (node.type === 'gene_protein') {
-            tooltip.html(
-              BiowcPathwaygraph._getGeneProteinTooltipText(
-                node as GeneProteinNodeD3
-              )
-            );
-          } else if (classesOfTarget.contains('summary')) {
-            let regulationLabel;
-            switch ((<PTMSummaryNodeD3>node).regulation) {
-              case 'up': {
-                regulationLabel = 'Upregulated';
-                break;
-              }
-              case 'down': {
-                regulationLabel = 'Downregulated';
-                break;
-              }
-              case 'not': {
-                regulationLabel = 'Unregulated';
-                break;
-              }
-              default: {
-                regulationLabel = '';
-                break;
-              }
-            }
-            tooltip.html(
-              `${(<PTMSummaryNodeD3>node).label} ${regulationLabel} ${
-                +(<PTMSummaryNodeD3>node).label > 1 ? 'Peptides' : 'Peptide'
-              }`
-            );
-          } else {
-            tooltip.html((<GeneProteinNodeD3>node).label || '');
-          }
           // All nodes get a tooltip, except for group nodes
-          if (node.type !== 'group') {
-            tooltip.transition().duration(0).style('opacity', '1');
-          }
+          if (node.type === 'group') return;
+          const defaultTooltipText = this._getNodeTooltipText(node);
+
+          // The host may fill the slot of the node type now, otherwise the slot shows the (rendered) default tooltip
+          this.dispatchEvent(
+            new CustomEvent('tooltipShown', {
+              bubbles: true,
+              cancelable: true,
+              detail: { node },
+            })
+          );
+          const defaultTooltip = html`${unsafeHTML(defaultTooltipText)}`;
+          const renderer = this.tooltipOptions?.renderers?.[node.type];
+          setTooltipContent(
+            html`<slot name="tooltip-${node.type.replace(/ /g, '_')}"
+              >${renderer
+                ? renderer(node, defaultTooltip)
+                : defaultTooltip}</slot
+            >`
+          );
         }
       }
     };
@@ -2249,9 +3936,18 @@ export class BiowcPathwaygraph extends LitElement {
         .style('left', `${e.offsetX + 15}px`);
     };
 
+    // Tooltips with links linger for a moment, so that the mouse can reach them
     const mouseleave = () => {
-      tooltip.transition().duration(0).style('opacity', '0');
+      clearTimeout(hideTimeoutId);
+      if (tooltip.select('a').empty()) {
+        hideTooltip();
+      } else {
+        hideTimeoutId = setTimeout(hideTooltip, 300);
+      }
     };
+    tooltip
+      .on('mouseover', () => clearTimeout(hideTimeoutId))
+      .on('mouseout', mouseleave);
 
     // // Apply this functionality to the nodes and links of the graph
     this._getMainDiv()
@@ -2274,6 +3970,61 @@ export class BiowcPathwaygraph extends LitElement {
       .on('mouseleave', mouseleave);
   }
 
+  // The default tooltip of a node as HTML, which the detail cards are made of as well
+  private _getNodeTooltipText(node: PathwayGraphNodeD3) {
+    if (node.type === 'ptm') {
+      return this._getPTMTooltipText(node as PTMNodeD3);
+    }
+    if (node.type === 'gene_protein') {
+      return this._getGeneProteinTooltipText(node as GeneProteinNodeD3);
+    }
+    if (node.type === 'compound') {
+      return this._getCompoundTooltipText(node as CompoundNodeD3);
+    }
+    if (node.type === 'ptm summary') {
+      let regulationLabel;
+      switch ((<PTMSummaryNodeD3>node).regulation) {
+        case 'up': {
+          regulationLabel = 'Upregulated';
+          break;
+        }
+        case 'down': {
+          regulationLabel = 'Downregulated';
+          break;
+        }
+        case 'not': {
+          regulationLabel = 'Unregulated';
+          break;
+        }
+        default: {
+          regulationLabel = '';
+          break;
+        }
+      }
+      return `${(<PTMSummaryNodeD3>node).label} ${regulationLabel} ${
+        +(<PTMSummaryNodeD3>node).label > 1 ? 'Peptides' : 'Peptide'
+      }`;
+    }
+    return (<GeneProteinNodeD3>node).label || '';
+  }
+
+  // PTM nodes have no label of their own, they are named by their protein and site
+  private static _getNodeTitle(node: PathwayGraphNodeD3) {
+    if (node.type === 'ptm') {
+      return [
+        (<PTMNodeD3>node).geneNames?.join(', '),
+        (<PTMNodeD3>node).detailsInternal?.Site,
+      ]
+        .filter(Boolean)
+        .join(' ');
+    }
+    return (
+      node.currentDisplayedLabel ||
+      (<GeneProteinNodeD3>node).label ||
+      node.nodeId
+    );
+  }
+
   private static _trimKeys(obj: { [key: string]: string | number }) {
     if (!obj) return {};
     return Object.keys(obj).reduce(
@@ -2285,6 +4036,234 @@ export class BiowcPathwaygraph extends LitElement {
     );
   }
 
+  private _getConditionNames() {
+    return [
+      ...new Set(
+        [
+          ...(this.ptmInputList || []),
+          ...(this.proteinInputList || []),
+          ...(this.metaboliteInputList || []),
+        ].flatMap(inputEntry => Object.keys(inputEntry.conditions || {}))
+      ),
+    ];
+  }
+
+  private _getActiveCondition() {
+    const conditionNames = this._getConditionNames();
+    return this.activeCondition && conditionNames.includes(this.activeCondition)
+      ? this.activeCondition
+      : conditionNames[0];
+  }
+
+  private static _getEntryInCondition<
+    T extends PTMInputEntry | ProteinInputEntry | MetaboliteInputEntry
+  >(inputEntry: T, condition?: string): T {
+    // Entries that were not measured in the condition keep their own values
+    if (
+      !condition ||
+      !inputEntry.conditions ||
+      !Object.hasOwn(inputEntry.conditions, condition)
+    ) {
+      return inputEntry;
+    }
+    const conditionEntry = inputEntry.conditions[condition];
+    // Without a regulation of its own, the condition's regulation is derived from its details
+    return {
+      ...inputEntry,
+      regulation: conditionEntry.regulation,
+      details: { ...inputEntry.details, ...conditionEntry.details },
+    };
+  }
+
+  // In the site-centric mode, the peptides of the ptmInputList are merged into one entry per site, see SiteAggregationOptions
+  private _getPTMInputEntries(): (PTMInputEntry | AggregatedPTMInputEntry)[] {
+    if (!this.ptmInputList || !this.siteAggregation) {
+      return this.ptmInputList || [];
+    }
+    const options = {
+      ...BiowcPathwaygraph.defaultSiteAggregationOptions,
+      ...this.siteAggregation,
+    };
+    // The groups keep the order in which their first peptide appears in the input
+    const groups: { site?: string; peptides: PTMInputEntry[] }[] = [];
+    const groupsBySiteKey: {
+      [key: string]: { site?: string; peptides: PTMInputEntry[] };
+    } = {};
+    for (const ptmInputEntry of this.ptmInputList) {
+      const sites = String(ptmInputEntry.details?.Site ?? '')
+        .split(/[;,]\s*/)
+        .filter(site => /^[A-Z]\d+/.test(site));
+      if (sites.length === 0) {
+        groups.push({ peptides: [ptmInputEntry] });
+      }
+      for (const {
+        protein,
+        entry,
+      } of BiowcPathwaygraph._splitPTMInputEntryByProtein(ptmInputEntry)) {
+        for (const site of sites) {
+          const siteKey = `${
+            ptmInputEntry.modificationType || 'phospho'
+          }|${protein}|${site.match(/^[A-Z]\d+/)![0]}`;
+          if (!Object.hasOwn(groupsBySiteKey, siteKey)) {
+            groupsBySiteKey[siteKey] = { site, peptides: [] };
+            groups.push(groupsBySiteKey[siteKey]);
+          }
+          groupsBySiteKey[siteKey].peptides.push(entry);
+        }
+      }
+    }
+
+    return groups.map(({ site, peptides }) => {
+      if (!site) return peptides[0];
+      const conditionNames = [
+        ...new Set(
+          peptides.flatMap(peptide => Object.keys(peptide.conditions || {}))
+        ),
+      ];
+      return {
+        ...this._aggregateSitePeptides(peptides, site, options),
+        conditions:
+          conditionNames.length > 0
+            ? Object.fromEntries(
+                conditionNames.map(condition => {
+                  const { regulation, details } = this._aggregateSitePeptides(
+                    peptides.map(peptide =>
+                      BiowcPathwaygraph._getEntryInCondition(peptide, condition)
+                    ),
+                    site,
+                    options
+                  );
+                  return [condition, { regulation, details }];
+                })
+              )
+            : undefined,
+        contributingPeptides: peptides,
+      };
+    });
+  }
+
+  private static _splitPTMInputEntryByProtein(
+    ptmInputEntry: PTMInputEntry
+  ): { protein: string; entry: PTMInputEntry }[] {
+    // Sites are identified by the accessions, or else by the gene names or other identifiers.
+    // Isoforms are kept apart, since their residues are not numbered like those of the canonical protein.
+    // A peptide shared by several proteins contributes to the site of each of them, and within that site
+    // it only carries the identifiers of that protein, so that it is not mapped to the nodes of the others.
+    const idKey = (<const>['uniprotAccs', 'geneNames', 'identifiers']).find(
+      key => (ptmInputEntry[key] || []).length > 0
+    );
+    if (!idKey) return [{ protein: '', entry: ptmInputEntry }];
+    const ids = ptmInputEntry[idKey]!;
+    const proteins = [...new Set(ids)];
+    if (proteins.length === 1) {
+      return [{ protein: proteins[0], entry: ptmInputEntry }];
+    }
+    return proteins.map(protein => {
+      const entry: PTMInputEntry = { ...ptmInputEntry, [idKey]: [protein] };
+      // Tables list the gene names in the same order as the accessions, otherwise we cannot tell which belongs to which
+      if (idKey === 'uniprotAccs') {
+        entry.geneNames =
+          ptmInputEntry.geneNames?.length === ids.length
+            ? [ptmInputEntry.geneNames[ids.indexOf(protein)]]
+            : [];
+      }
+      if (idKey !== 'identifiers') entry.identifiers = [];
+      return { protein, entry };
+    });
+  }
+
+  private _aggregateSitePeptides(
+    peptides: PTMInputEntry[],
+    site: string,
+    options: Required<SiteAggregationOptions>
+  ): PTMInputEntry {
+    const thresholds = {
+      ...BiowcPathwaygraph.defaultRegulationThresholds,
+      ...this.regulationThresholds,
+    };
+    let representative = peptides[0];
+    if (options.rule !== 'median') {
+      // Peptides without a value never win against ones with a value
+      const getScore = (peptide: PTMInputEntry) => {
+        const score =
+          options.rule === 'bestLocalized'
+            ? BiowcPathwaygraph._getInputEntryValue(
+                peptide,
+                options.localizationKey
+              )
+            : -BiowcPathwaygraph._getInputEntryValue(
+                peptide,
+                thresholds.significanceKey
+              );
+        return Number.isNaN(score) ? -Infinity : score;
+      };
+      representative = peptides.reduce((best, peptide) =>
+        getScore(peptide) > getScore(best) ? peptide : best
+      );
+    }
+    const aggregatedEntry: PTMInputEntry = {
+      ...representative,
+      details: { ...representative.details, Site: site },
+    };
+    if (options.rule === 'median') {
+      for (const detailKey of [
+        thresholds.foldChangeKey,
+        thresholds.significanceKey,
+      ]) {
+        const values = peptides
+          .map(peptide =>
+            BiowcPathwaygraph._getInputEntryValue(peptide, detailKey)
+          )
+          .filter(value => !Number.isNaN(value));
+        if (values.length > 0) {
+          aggregatedEntry.details![detailKey] = d3v6.median(values)!;
+          // The regulation of the representative does not necessarily hold for the median
+          if (detailKey === thresholds.foldChangeKey) {
+            aggregatedEntry.regulation = undefined;
+          }
+        }
+      }
+    }
+    return aggregatedEntry;
+  }
+
+  private _getRegulation(
+    inputEntry: PTMInputEntry | ProteinInputEntry | MetaboliteInputEntry
+  ): PossibleRegulationCategoriesType {
+    if (inputEntry.regulation) return inputEntry.regulation;
+
+    const thresholds = {
+      ...BiowcPathwaygraph.defaultRegulationThresholds,
+      ...this.regulationThresholds,
+    };
+    const details = BiowcPathwaygraph._trimKeys(inputEntry.details!);
+    const foldChange = Number(details[thresholds.foldChangeKey]);
+    if (
+      !Object.hasOwn(details, thresholds.foldChangeKey) ||
+      Number.isNaN(foldChange)
+    )
+      return 'not';
+
+    // Entries without a p- or q-value are judged by their fold change alone
+    const minusLogSignificance = Object.hasOwn(
+      details,
+      thresholds.significanceKey
+    )
+      ? -Math.log10(Number(details[thresholds.significanceKey]))
+      : Infinity;
+    const foldChangeMargin = Math.abs(foldChange) - thresholds.foldChangeCutoff;
+    if (foldChangeMargin <= 0 || Number.isNaN(minusLogSignificance))
+      return 'not';
+
+    let minusLogSignificanceCutoff = -Math.log10(thresholds.significanceCutoff);
+    if (thresholds.volcanoCurvature > 0) {
+      minusLogSignificanceCutoff +=
+        thresholds.volcanoCurvature / foldChangeMargin;
+    }
+    if (minusLogSignificance < minusLogSignificanceCutoff) return 'not';
+    return foldChange > 0 ? 'up' : 'down';
+  }
+
   private static _calcPossibleLabels(node: GeneProteinNodeD3) {
     let splitRegex;
     // Individual PTM nodes cannot have a label
@@ -2358,205 +4337,484 @@ export class BiowcPathwaygraph extends LitElement {
       ) {
         return 'circle-undirected';
       }
+      // Kinases without an explicit perturbation are highlighted if their inferred activity is significant
+      const { kinaseActivity } = geneProteinNode;
+      if (
+        kinaseActivity &&
+        kinaseActivity.pValue <= this._getKinaseActivityScoring().pValueCutoff
+      ) {
+        if (kinaseActivity.score > 0) return 'circle-up';
+        if (kinaseActivity.score < 0) return 'circle-down';
+      }
     }
     return '';
   }
 
+  private static _getScoreThresholds(scores: number[]) {
+    // Offer every distinct score as a threshold, or five quantiles if there are too many
+    const maxNumberOfThresholds = 5;
+    const distinctScores = [...new Set(scores)].sort((a, b) => a - b);
+    if (distinctScores.length <= maxNumberOfThresholds) return distinctScores;
+    const sortedScores = [...scores].sort((a, b) => a - b);
+    return [
+      ...new Set(
+        [...Array(maxNumberOfThresholds).keys()].map(
+          i =>
+            sortedScores[
+              Math.floor((i * sortedScores.length) / maxNumberOfThresholds)
+            ]
+        )
+      ),
+    ];
+  }
+
+  private _isKinaseSubstrateLinkIncluded(link: PathwayGraphLink) {
+    const { sources, minScore } = this.kinaseSubstrateLinkFilter ?? {};
+    if (sources && !link.sources?.some(source => sources.includes(source))) {
+      return false;
+    }
+    return (
+      minScore === undefined ||
+      (link.score !== undefined && link.score >= minScore)
+    );
+  }
+
+  private _getKinaseActivityScoring(): Required<KinaseActivityScoringOptions> {
+    return {
+      ...BiowcPathwaygraph.defaultKinaseActivityScoring,
+      ...this.kinaseActivityScoring,
+    };
+  }
+
+  private _updateKinaseActivityScores() {
+    /* eslint-disable no-param-reassign */
+    this.d3Nodes!.filter(node => node.type === 'gene_protein').forEach(node => {
+      delete (<GeneProteinNodeD3>node).kinaseActivity;
+    });
+    if (!this.kinaseActivityScoring) return;
+    const options = this._getKinaseActivityScoring();
+
+    // The fold changes of all PTMs are the background the substrates of each kinase are compared to
+    const ptmFoldChanges: { [key: string]: number } = {};
+    this.d3Nodes!.filter(node => node.type === 'ptm').forEach(node => {
+      const foldChange = (<PTMNodeD3>node).detailsInternal?.[
+        options.foldChangeKey
+      ];
+      if (
+        foldChange !== undefined &&
+        foldChange !== '' &&
+        !Number.isNaN(Number(foldChange))
+      ) {
+        ptmFoldChanges[node.nodeId] = Number(foldChange);
+      }
+    });
+    const allFoldChanges = Object.values(ptmFoldChanges);
+    if (allFoldChanges.length === 0) return;
+
+    const kinaseToSubstrates: { [key: string]: Set<string> } = {};
+    this.d3Links!.filter(
+      link =>
+        link.types.includes('kinaseSubstrateLink') &&
+        this._isKinaseSubstrateLinkIncluded(link) &&
+        Object.hasOwn(ptmFoldChanges, link.targetId)
+    ).forEach(link => {
+      if (!Object.hasOwn(kinaseToSubstrates, link.sourceId)) {
+        kinaseToSubstrates[link.sourceId] = new Set<string>();
+      }
+      kinaseToSubstrates[link.sourceId].add(link.targetId);
+    });
+
+    this.d3Nodes!.filter(
+      node =>
+        node.type === 'gene_protein' &&
+        Object.hasOwn(kinaseToSubstrates, node.nodeId) &&
+        kinaseToSubstrates[node.nodeId].size >= options.minSubstrates
+    ).forEach(node => {
+      const substrateFoldChanges = [...kinaseToSubstrates[node.nodeId]].map(
+        substrateId => ptmFoldChanges[substrateId]
+      );
+      (<GeneProteinNodeD3>node).kinaseActivity =
+        options.method === 'mean'
+          ? BiowcPathwaygraph._computeMeanKinaseActivity(
+              substrateFoldChanges,
+              allFoldChanges,
+              options.permutations
+            )
+          : BiowcPathwaygraph._computeKseaKinaseActivity(
+              substrateFoldChanges,
+              allFoldChanges
+            );
+    });
+    /* eslint-enable no-param-reassign */
+  }
+
+  private static _computeKseaKinaseActivity(
+    substrateFoldChanges: number[],
+    allFoldChanges: number[]
+  ): KinaseActivityScore {
+    const mean = (values: number[]) =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+    const overallMean = mean(allFoldChanges);
+    const overallSd = Math.sqrt(
+      mean(allFoldChanges.map(value => (value - overallMean) ** 2))
+    );
+    const nSubstrates = substrateFoldChanges.length;
+    // Without any variance in the data, no kinase stands out
+    const score =
+      overallSd > 0
+        ? ((mean(substrateFoldChanges) - overallMean) *
+            Math.sqrt(nSubstrates)) /
+          overallSd
+        : 0;
+    return {
+      method: 'ksea',
+      score,
+      pValue: 2 * (1 - BiowcPathwaygraph._normalCdf(Math.abs(score))),
+      nSubstrates,
+    };
+  }
+
+  private static _computeMeanKinaseActivity(
+    substrateFoldChanges: number[],
+    allFoldChanges: number[],
+    permutations: number
+  ): KinaseActivityScore {
+    const mean = (values: number[]) =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+    const overallMean = mean(allFoldChanges);
+    // Like the KSEA z-score, the score is relative to the background, so that its sign gives the direction
+    const score = mean(substrateFoldChanges) - overallMean;
+    const nSubstrates = substrateFoldChanges.length;
+
+    // A fixed seed keeps the p-values, and thereby the highlighting, stable between redraws
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1664525 + 1013904223) % 4294967296;
+      return seed / 4294967296;
+    };
+    let nAtLeastAsExtreme = 0;
+    const shuffled = [...allFoldChanges];
+    for (let i = 0; i < permutations; i += 1) {
+      // Draw a random set of the same size by partially shuffling all fold changes
+      for (let j = 0; j < nSubstrates; j += 1) {
+        const k = j + Math.floor(random() * (shuffled.length - j));
+        [shuffled[j], shuffled[k]] = [shuffled[k], shuffled[j]];
+      }
+      if (
+        Math.abs(mean(shuffled.slice(0, nSubstrates)) - overallMean) >=
+        Math.abs(score)
+      ) {
+        nAtLeastAsExtreme += 1;
+      }
+    }
+    return {
+      method: 'mean',
+      score,
+      pValue: (nAtLeastAsExtreme + 1) / (permutations + 1),
+      nSubstrates,
+    };
+  }
+
+  private static _normalCdf(x: number) {
+    // Abramowitz and Stegun, formula 7.1.26, for the error function of x / sqrt(2)
+    const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+    const erf =
+      1 -
+      t *
+        (0.254829592 +
+          t *
+            (-0.284496736 +
+              t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+        Math.exp(-(x ** 2) / 2);
+    return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+
   private _computeNodeColor(node: PathwayGraphNodeD3) {
-    if (node.type !== 'ptm') {
+    const hueMode = this._getHueMode();
+    if (node.type === 'gene_protein' && this.hue === 'foldchange') {
+      return this._computeProteinColor(this._getProteinColorValue(node));
+    }
+    // Compounds with metabolite data are colored like PTMs, except by direction, which the css takes care of
+    const isColoredCompound =
+      node.type === 'compound' &&
+      !!hueMode &&
+      !!(<CompoundNodeD3>node).detailsInternal;
+    if (node.type !== 'ptm' && !isColoredCompound) {
       // Default to whatever is in the css
       return '';
     }
-    const upregulatedColor = getComputedStyle(this).getPropertyValue(
-      '--upregulated-color'
+    if (!hueMode) {
+      switch ((<PTMNodeD3>node).regulation) {
+        case 'up':
+          return getComputedStyle(this).getPropertyValue('--upregulated-color');
+        case 'down':
+          return getComputedStyle(this).getPropertyValue(
+            '--downregulated-color'
+          );
+        case 'not':
+          return getComputedStyle(this).getPropertyValue('--unregulated-color');
+        default:
+          return '';
+      }
+    }
+    return this._computeHueModeColor(
+      hueMode,
+      BiowcPathwaygraph._getHueModeValue(hueMode, node),
+      this.colorRangeMin!,
+      this.colorRangeMax!
     );
-    const downregulatedColor = getComputedStyle(this).getPropertyValue(
-      '--downregulated-color'
+  }
+
+  private _getHueModes(): HueMode[] {
+    const hueModes = this.hueModes || [];
+    return [
+      ...BiowcPathwaygraph.defaultHueModes.map(
+        defaultHueMode =>
+          hueModes.find(hueMode => hueMode.id === defaultHueMode.id) ||
+          defaultHueMode
+      ),
+      ...hueModes.filter(
+        hueMode =>
+          !BiowcPathwaygraph.defaultHueModes.some(
+            defaultHueMode => defaultHueMode.id === hueMode.id
+          )
+      ),
+    ];
+  }
+
+  private _getHueMode() {
+    // Undefined if the nodes are colored by direction
+    return this._getHueModes().find(hueMode => hueMode.id === this.hue);
+  }
+
+  public registerHueMode(hueMode: HueMode) {
+    this.hueModes = [
+      ...(this.hueModes || []).filter(
+        registeredHueMode => registeredHueMode.id !== hueMode.id
+      ),
+      hueMode,
+    ];
+  }
+
+  private static _transformHueModeValue(hueMode: HueMode, value: number) {
+    if (!hueMode.logTransform) return value;
+    return value > 0 ? Math.log10(value) : NaN;
+  }
+
+  private static _getHueModeValue(hueMode: HueMode, node: PathwayGraphNodeD3) {
+    const { detailsInternal } = <PTMNodeD3 | CompoundNodeD3>node;
+    if (!detailsInternal) return NaN;
+    const detailKey = [hueMode.detailKey]
+      .flat()
+      .find(key => Object.hasOwn(detailsInternal, key));
+    if (detailKey === undefined || detailsInternal[detailKey] === '') {
+      return NaN;
+    }
+    return BiowcPathwaygraph._transformHueModeValue(
+      hueMode,
+      Number(detailsInternal[detailKey])
     );
-    switch (this.hue) {
-      case 'direction': {
-        const unregulatedColor = getComputedStyle(this).getPropertyValue(
-          '--unregulated-color'
-        );
-        switch ((<PTMNodeD3>node).regulation) {
-          case 'up':
-            return upregulatedColor;
-          case 'down':
-            return downregulatedColor;
-          case 'not':
-            return unregulatedColor;
-          default:
-            return '';
-        }
-      }
-      case 'foldchange': {
-        const unregulatedColor = getComputedStyle(this).getPropertyValue(
-          '--unregulated-color-light'
-        );
-        // Interpolate between up and not or down and not, depending on direction
-        // BiowcPathwayGraph expects log Fold Changes, therefore the interpolation center is always 0
-        const interpolationCenter = 0;
-        const nodeFoldChange = BiowcPathwaygraph._getNodeFoldChange(node);
-        if (nodeFoldChange > interpolationCenter) {
-          return d3v6.interpolate(
-            unregulatedColor,
-            upregulatedColor
-          )(
-            (BiowcPathwaygraph._getNodeFoldChange(node) - interpolationCenter) /
-              (this.maxPosFoldChange! - interpolationCenter)
-          );
-        }
-        return d3v6.interpolate(
-          unregulatedColor,
-          downregulatedColor
-        )(
-          (BiowcPathwaygraph._getNodeFoldChange(node) - interpolationCenter) /
-            (this.maxNegFoldChange! - interpolationCenter)
-        );
+  }
+
+  private _getHueModeInterpolator(hueMode: HueMode): (t: number) => string {
+    const colors =
+      hueMode.colors ||
+      (hueMode.scaleType === 'diverging' ? 'blueRed' : 'viridis');
+    if (typeof colors === 'string') {
+      return BiowcPathwaygraph.colorScalePresets[colors];
+    }
+    const resolvedColors = colors.map(color =>
+      color.startsWith('--')
+        ? getComputedStyle(this).getPropertyValue(color)
+        : color
+    );
+    // A diverging scale has to pass through its middle color exactly, a sequential one may blend its colors
+    return hueMode.scaleType === 'diverging'
+      ? d3v6.piecewise(d3v6.interpolateRgb, resolvedColors)
+      : d3v6.interpolateRgbBasis(resolvedColors);
+  }
+
+  private static _getHueModeScalePosition(
+    hueMode: HueMode,
+    value: number,
+    rangeMin: number,
+    rangeMax: number
+  ) {
+    // Returns where on the color scale, from 0 to 1, the value is
+    if (hueMode.scaleType === 'diverging') {
+      const center = hueMode.center ?? 0;
+      // If the range does not extend to one side of the center, values on that side get the color of the center
+      const getHalfPosition = (deviation: number, halfWidth: number) =>
+        halfWidth > 0 ? Math.min(Math.max(deviation / halfWidth, 0), 1) : 0;
+      if (value > center) {
+        return 0.5 + 0.5 * getHalfPosition(value - center, rangeMax - center);
       }
-      case 'potency': {
-        return d3v6.interpolateRgbBasis(this.potencyColorScale)(
-          (Number((<PTMNodeD3>node).detailsInternal!['-log(EC50)']) -
-            this.colorRangeMin!) /
-            (this.colorRangeMax! - this.colorRangeMin!)
-        );
+      if (value < center) {
+        return 0.5 - 0.5 * getHalfPosition(center - value, center - rangeMin);
       }
-      default:
-        return '';
+      return 0.5;
     }
+    if (rangeMax === rangeMin) return 0.5;
+    return Math.min(Math.max((value - rangeMin) / (rangeMax - rangeMin), 0), 1);
   }
 
-  private _calculateHueRange() {
-    switch (this.hue) {
-      case 'direction':
-        break;
-      case 'foldchange':
-        /* eslint-disable no-case-declarations */
-
-        // Interpolate between up and not or down and not, depending on direction
-        // BiowcPathwayGraph expects log Fold Changes, therefore the interpolation center is always 0
-        const interpolationCenter = 0;
-        this.anyDowngoingPTMs = this.d3Nodes
-          ?.filter(node => node.type === 'ptm')
-          .some(
-            node =>
-              BiowcPathwaygraph._getNodeFoldChange(node) < interpolationCenter
-          );
+  private _computeHueModeColor(
+    hueMode: HueMode,
+    value: number,
+    rangeMin: number,
+    rangeMax: number
+  ) {
+    if (Number.isNaN(value)) return '';
+    return this._getHueModeInterpolator(hueMode)(
+      BiowcPathwaygraph._getHueModeScalePosition(
+        hueMode,
+        value,
+        rangeMin,
+        rangeMax
+      )
+    );
+  }
 
-        this.anyUpgoingPTMs = this.d3Nodes
-          ?.filter(node => node.type === 'ptm')
-          .some(
-            node =>
-              BiowcPathwaygraph._getNodeFoldChange(node) > interpolationCenter
-          );
+  private _getProteinColorValue(node: PathwayGraphNodeD3) {
+    const value = (<GeneProteinNodeD3>node).detailsInternal?.[
+      this.proteinColorKey!
+    ];
+    if (!this.proteinColorKey || value === undefined || value === '') {
+      return NaN;
+    }
+    // If several protein entries are mapped to the node, their values were joined by commas, so we take the mean
+    const values = String(value).split(',').map(Number);
+    return values.reduce((sum, x) => sum + x, 0) / values.length;
+  }
 
-        this.maxPosFoldChange = this.d3Nodes
-          ?.filter(node => node.type === 'ptm')
-          ?.reduce((currentMax: number, currentNode: PathwayGraphNodeD3) => {
-            // Check if the node has a fold change in its details
-            if (
-              Object.hasOwn(currentNode, 'detailsInternal') &&
-              (Object.hasOwn(
-                (<PTMNodeD3>currentNode).detailsInternal!,
-                'Fold Change'
-              ) ||
-                Object.hasOwn(
-                  (<PTMNodeD3>currentNode).detailsInternal!,
-                  'Log Fold Change'
-                ))
-            ) {
-              // Compare it with the currentMax
-              return Math.max(
-                BiowcPathwaygraph._getNodeFoldChange(currentNode),
-                currentMax
-              );
-            }
-            return currentMax;
-          }, 0);
+  private _getProteinColorValuesInAllConditions() {
+    // Like the PTM color scale, the protein color scale covers the values of all conditions
+    const conditionNames = this._getConditionNames();
+    return (this.proteinInputList || [])
+      .filter(
+        proteinInput =>
+          this._getMatchingGeneProteinNodes(proteinInput).length > 0
+      )
+      .flatMap(proteinInput =>
+        (conditionNames.length > 0 ? conditionNames : [undefined]).map(
+          condition =>
+            BiowcPathwaygraph._getInputEntryValue(
+              BiowcPathwaygraph._getEntryInCondition(proteinInput, condition),
+              this.proteinColorKey!
+            )
+        )
+      )
+      .filter(value => !Number.isNaN(value));
+  }
 
-        this.maxNegFoldChange = this.d3Nodes
-          ?.filter(node => node.type === 'ptm')
-          ?.reduce((currentMax: number, currentNode: PathwayGraphNodeD3) => {
-            // Check if the node has a fold change in its details
-            if (
-              Object.hasOwn(currentNode, 'detailsInternal') &&
-              (Object.hasOwn(
-                (<PTMNodeD3>currentNode).detailsInternal!,
-                'Fold Change'
-              ) ||
-                Object.hasOwn(
-                  (<PTMNodeD3>currentNode).detailsInternal!,
-                  'Log Fold Change'
-                ))
-            ) {
-              // If yes, compare it with the currentMax (which is a min for negative fold change)
-              return Math.min(
-                BiowcPathwaygraph._getNodeFoldChange(currentNode),
-                currentMax
-              );
-            }
-            return currentMax;
-          }, 0);
+  private _getProteinHeatmapCells(node: PathwayGraphNodeD3) {
+    const { heatmapValues } = <GeneProteinNodeD3>node;
+    if (!this.proteinHeatmap || !heatmapValues) return [];
+    // A cell without any value is left empty
+    return (this.proteinHeatmap.detailKeys || this._getConditionNames()).map(
+      cellName => {
+        const values = heatmapValues[cellName] || [];
+        return {
+          cellName,
+          value:
+            values.length > 0
+              ? values.reduce((sum, value) => sum + value, 0) / values.length
+              : NaN,
+        };
+      }
+    );
+  }
 
-        break;
-      /* eslint-enable no-case-declarations */
-      case 'potency':
-        this.maxPotency = this.d3Nodes
-          ?.filter(node => node.type === 'ptm')
-          .reduce((currentMax: number, currentNode: PathwayGraphNodeD3) => {
-            // Check if the node has details and if they include a fold change
-            if (
-              Object.hasOwn(currentNode, 'detailsInternal') &&
-              Object.hasOwn(
-                (<GeneProteinNodeD3 | PTMNodeD3>currentNode).detailsInternal!,
-                '-log(EC50)'
-              )
-            ) {
-              // If yes, compare it with the currentMax
-              return Math.max(
-                Number(
-                  (<GeneProteinNodeD3 | PTMNodeD3>currentNode).detailsInternal![
-                    '-log(EC50)'
-                  ]
-                ),
-                currentMax
-              );
-            }
+  private _getProteinHueMode() {
+    // Proteins are colored on a scale of their own, but with the colors of the fold change
+    return this._getHueModes().find(hueMode => hueMode.id === 'foldchange')!;
+  }
 
-            return currentMax;
-          }, 0);
-        this.minPotency = this.d3Nodes
-          ?.filter(node => node.type === 'ptm')
-          .reduce((currentMin: number, currentNode: PathwayGraphNodeD3) => {
-            // Check if the node has details and if they include an EC50
-            if (
-              Object.hasOwn(currentNode, 'detailsInternal') &&
-              Object.hasOwn(
-                (<GeneProteinNodeD3 | PTMNodeD3>currentNode).detailsInternal!,
-                '-log(EC50)'
-              )
-            ) {
-              // If yes, compare it with the currentMin
-              return Math.min(
-                Number(
-                  (<GeneProteinNodeD3 | PTMNodeD3>currentNode).detailsInternal![
-                    '-log(EC50)'
-                  ]
-                ),
-                currentMin
-              );
-            }
+  private _computeProteinColor(value: number) {
+    return this._computeHueModeColor(
+      this._getProteinHueMode(),
+      value,
+      this.maxNegProteinValue!,
+      this.maxPosProteinValue!
+    );
+  }
+
+  private _getColoredNodes(): PathwayGraphNodeD3[] {
+    // The color scale covers the values of all conditions, so that colors stay comparable when switching between them
+    return [
+      ...(<PTMNodeD3[]>(
+        (this.d3Nodes || []).filter(node => node.type === 'ptm')
+      )).flatMap(BiowcPathwaygraph._getPTMNodeInAllConditions),
+      ...(this.d3Nodes || []).filter(
+        node =>
+          node.type === 'compound' && !!(<CompoundNodeD3>node).detailsInternal
+      ),
+    ];
+  }
 
-            return currentMin;
-          }, this.maxPotency!);
+  private static _getPTMNodeInAllConditions(ptmNode: PTMNodeD3): PTMNodeD3[] {
+    if (!ptmNode.conditions) return [ptmNode];
+    return Object.values(ptmNode.conditions).map(
+      ({ regulation, detailsInternal }) => ({
+        ...ptmNode,
+        regulation,
+        detailsInternal,
+      })
+    );
+  }
 
-        // Set min and max values to min and max potency (the user may change this later):
-        this.colorRangeMin = 5;
-        this.colorRangeMax = 9;
-        break;
-      default:
-        break;
-    }
+  private _calculateHueRange() {
+    this._calculateProteinHueRange();
+
+    const hueMode = this._getHueMode();
+    if (!hueMode) return;
+
+    const values = this._getColoredNodes()
+      .map(node => BiowcPathwaygraph._getHueModeValue(hueMode, node))
+      .filter(value => !Number.isNaN(value));
+    const center = hueMode.center ?? 0;
+    this.anyValuesBelowCenter = values.some(value => value < center);
+    this.anyValuesAboveCenter = values.some(value => value > center);
+
+    // A diverging scale always includes its center
+    const initialValue =
+      hueMode.scaleType === 'diverging' ? center : values[0] ?? 0;
+    this.colorRangeMin = hueMode.domain
+      ? BiowcPathwaygraph._transformHueModeValue(hueMode, hueMode.domain[0])
+      : values.reduce(
+          (currentMin, value) => Math.min(value, currentMin),
+          initialValue
+        );
+    this.colorRangeMax = hueMode.domain
+      ? BiowcPathwaygraph._transformHueModeValue(hueMode, hueMode.domain[1])
+      : values.reduce(
+          (currentMax, value) => Math.max(value, currentMax),
+          initialValue
+        );
+  }
+
+  private _calculateProteinHueRange() {
+    // The protein fill (only by fold change) and the heatmap strips share one color scale
+    const proteinValues = [
+      ...(this.hue === 'foldchange' && this.proteinColorKey
+        ? this._getProteinColorValuesInAllConditions()
+        : []),
+      ...(this.d3Nodes || [])
+        .flatMap(node => this._getProteinHeatmapCells(node))
+        .map(({ value }) => value)
+        .filter(value => !Number.isNaN(value)),
+    ];
+    const center = this._getProteinHueMode().center ?? 0;
+    this.anyDowngoingProteins = proteinValues.some(value => value < center);
+    this.anyUpgoingProteins = proteinValues.some(value => value > center);
+    this.maxPosProteinValue = proteinValues.reduce(
+      (currentMax, value) => Math.max(value, currentMax),
+      center
+    );
+    this.maxNegProteinValue = proteinValues.reduce(
+      (currentMin, value) => Math.min(value, currentMin),
+      center
+    );
   }
 
   // Define drag behavior
@@ -2580,6 +4838,7 @@ export class BiowcPathwaygraph extends LitElement {
         .select(this.shadowRoot)
         .select('#nodetooltip')
         .style('opacity', '0')
+        .style('visibility', 'hidden')
         .attr('is-dragging', 'true');
       if (!event.active) simulation.alphaTarget(0.3).restart();
     };
@@ -2640,6 +4899,7 @@ export class BiowcPathwaygraph extends LitElement {
         .select(this.shadowRoot)
         .select('#nodetooltip')
         .style('opacity', '0')
+        .style('visibility', 'hidden')
         .attr('is-dragging', 'true');
       if (!event.active) simulation.alphaTarget(0.3).restart();
     };
@@ -2709,13 +4969,36 @@ export class BiowcPathwaygraph extends LitElement {
     // Bring legend to front of the canvas
     legendSvg.node()!.parentNode!.appendChild(legendSvg.node()!);
 
-    // We will draw a color legend if the hue is either potency or fold change
-    const drawColorLegend = this.hue === 'potency' || this.hue === 'foldchange';
+    // We will draw a color legend unless the nodes are colored by direction
+    const hueMode = this._getHueMode();
+    // Proteins colored by the proteinColorKey or shown in heatmap strips get a color scale of their own
+    const drawProteinColorLegend =
+      !!this.anyUpgoingProteins || !!this.anyDowngoingProteins;
+    // If there are other PTMs than phosphorylations, the glyphs of the modification types are explained below, two per line
+    const modificationTypes = this._getModificationTypes();
+    const drawModificationTypeLegend = modificationTypes.some(
+      modificationType => modificationType !== 'phospho'
+    );
+    const modificationTypeLegendHeight = drawModificationTypeLegend
+      ? 25 * Math.ceil(modificationTypes.length / 2) + 10
+      : 0;
 
     // Determine width and height of the legend.
     // Width is constant, height is larger if the legend contains a color scale
+    // If the input has several conditions, a line at the bottom names the one(s) shown
+    const conditionNames = this._getConditionNames();
+    let conditionCaption = '';
+    if (conditionNames.length > 1 && this.isConditionSplitViewActive) {
+      conditionCaption = `Conditions: ${conditionNames.join(' | ')}`;
+    } else if (conditionNames.length > 0) {
+      conditionCaption = `Condition: ${this._getActiveCondition()}`;
+    }
     const legendWidth = 265;
-    const legendHeight = drawColorLegend ? 357 : 277;
+    const legendHeight =
+      (hueMode ? 357 : 277) +
+      (drawProteinColorLegend ? 80 : 0) +
+      modificationTypeLegendHeight +
+      (conditionCaption ? 25 : 0);
 
     // Draw the frame
     legendSvg
@@ -2728,6 +5011,15 @@ export class BiowcPathwaygraph extends LitElement {
       .style('stroke-width', '1.5')
       .style('stroke', 'var(--legend-frame-color)');
 
+    if (conditionCaption) {
+      legendSvg
+        .append('text')
+        .attr('class', 'legend')
+        .text(conditionCaption)
+        .attr('x', 10)
+        .attr('y', legendHeight - 7);
+    }
+
     const scalingFactor = 0.5;
     const xOffset = 20 * scalingFactor;
     const yOffset = 50 * scalingFactor;
@@ -3132,138 +5424,182 @@ export class BiowcPathwaygraph extends LitElement {
         yOffset * scalingFactor + 3 + lineHeight * 10 + paragraphMargin * 0
       );
 
-    if (drawColorLegend) {
-      const colorLegendGroupPosition = [
-        xOffset + 5,
-        yOffset * scalingFactor + lineHeight * 11 + paragraphMargin * 2 + 10,
-      ];
-      const colorLegendGroup = legendSvg
-        .append('g')
-        .attr(
-          'transform',
-          `translate(${colorLegendGroupPosition[0]},${colorLegendGroupPosition[1]})`
-        );
+    const colorLegendGroupPosition = [
+      xOffset + 5,
+      yOffset * scalingFactor + lineHeight * 11 + paragraphMargin * 2 + 10,
+    ];
+    if (hueMode) {
+      this._drawColorScaleLegend(
+        legendSvg,
+        colorLegendGroupPosition,
+        `${hueMode.logTransform ? 'log10 ' : ''}${
+          hueMode.legendTitle || hueMode.label
+        }:`,
+        'color-scale-linear-gradient',
+        hueMode,
+        [this.colorRangeMin!, this.colorRangeMax!],
+        [!!this.anyValuesBelowCenter, !!this.anyValuesAboveCenter],
+        legendWidth - 25,
+        lineHeight
+      );
+    }
 
-      const colorLegendTitle = legendSvg
-        .append('text')
-        .attr('class', 'legend')
-        .attr('x', colorLegendGroupPosition[0] - 5)
-        .attr('y', colorLegendGroupPosition[1] - lineHeight / 2);
-
-      // Generate the linear gradient for the color legend
-      // (https://www.visualcinnamon.com/2016/05/smooth-color-legend-d3-svg-gradient/)
-      const linearGradient = this._getMainDiv().select<SVGElement>(
-        '#potency-linear-gradient'
+    if (drawProteinColorLegend) {
+      const isProteinFillShown =
+        this.hue === 'foldchange' && !!this.proteinColorKey;
+      this._drawColorScaleLegend(
+        legendSvg,
+        [
+          colorLegendGroupPosition[0],
+          colorLegendGroupPosition[1] + (hueMode ? 80 : 0),
+        ],
+        `Protein ${
+          this.proteinHeatmap?.detailKeys && !isProteinFillShown
+            ? 'Heatmap'
+            : this._getProteinHeatmapValueKey()
+        }:`,
+        'protein-linear-gradient',
+        this._getProteinHueMode(),
+        [this.maxNegProteinValue!, this.maxPosProteinValue!],
+        [!!this.anyDowngoingProteins, !!this.anyUpgoingProteins],
+        legendWidth - 25,
+        lineHeight
       );
+    }
 
-      // In case the legend is being redrawn, we need to clear the gradient's stops
-      linearGradient.selectAll('*').remove();
-
-      linearGradient!.attr('x1', '0%').attr('x2', '100%');
-
-      colorLegendGroup
-        .append('rect')
-        .attr('width', legendWidth - 25)
-        .attr('height', 20)
-        .style('fill', 'url(#potency-linear-gradient)');
-
-      const steps = 100;
-      const gradientRange = Array.from({ length: steps }, (_, i) => i / steps);
+    if (drawModificationTypeLegend) {
+      const modificationTypeLegendY =
+        (hueMode ? 357 : 277) + (drawProteinColorLegend ? 80 : 0);
+      modificationTypes.forEach((modificationType, i) => {
+        const { label, glyph } =
+          BiowcPathwaygraph.modificationTypes[modificationType];
+        const x = xOffset + 125 * (i % 2);
+        const y = modificationTypeLegendY + 15 + 25 * Math.floor(i / 2);
+        legendSvg
+          .append('rect')
+          .attr('class', `node-rect ptm not legend ${modificationType}`)
+          .attr('x', -0.5 * glyph.width)
+          .attr('y', -0.5 * glyph.height)
+          .attr('width', glyph.width)
+          .attr('height', glyph.height)
+          .attr('rx', glyph.cornerRadius)
+          .attr('ry', glyph.cornerRadius)
+          .attr(
+            'transform',
+            `translate(${x + 8},${y - 4}) rotate(${glyph.rotation}) scale(1.3)`
+          );
+        legendSvg
+          .append('text')
+          .attr('class', 'legend')
+          .text(label)
+          .attr('x', x + 22)
+          .attr('y', y);
+      });
+    }
+  }
 
-      let colorLegendXAxisScale;
-      let colorLegendXAxis: d3v6.Axis<d3v6.NumberValue> | d3v6.Axis<string>;
+  private _drawColorScaleLegend(
+    legendSvg: Selection<SVGElement, unknown, HTMLElement, any>,
+    position: number[],
+    title: string,
+    gradientId: string,
+    hueMode: HueMode,
+    [rangeMin, rangeMax]: [number, number],
+    [anyValuesBelowCenter, anyValuesAboveCenter]: [boolean, boolean],
+    width: number,
+    lineHeight: number
+  ) {
+    const colorLegendGroup = legendSvg
+      .append('g')
+      .attr('transform', `translate(${position[0]},${position[1]})`);
 
-      if (this.hue === 'potency') {
-        colorLegendTitle.text('pEC50:');
-        colorLegendXAxisScale = d3v6.scaleLinear();
-        colorLegendXAxis = d3v6.axisBottom(colorLegendXAxisScale);
+    legendSvg
+      .append('text')
+      .attr('class', 'legend')
+      .text(title)
+      .attr('x', position[0] - 5)
+      .attr('y', position[1] - lineHeight / 2);
+
+    // Generate the linear gradient for the color legend
+    // (https://www.visualcinnamon.com/2016/05/smooth-color-legend-d3-svg-gradient/)
+    const linearGradient = this._getMainDiv().select<SVGElement>(
+      `#${gradientId}`
+    );
 
-        linearGradient
-          .selectAll('stop')
-          .data(gradientRange)
-          .enter()
-          .append('stop')
-          .attr('offset', d => d)
-          .attr('stop-color', d =>
-            d3v6.interpolateRgbBasis(this.potencyColorScale)(d)
-          );
-        colorLegendXAxisScale
-          .domain([this.colorRangeMin!, this.colorRangeMax!])
-          .range([0, legendWidth - 25]);
+    // In case the legend is being redrawn, we need to clear the gradient's stops
+    linearGradient.selectAll('*').remove();
 
-        colorLegendXAxis.ticks(4);
-      }
+    linearGradient!.attr('x1', '0%').attr('x2', '100%');
 
-      if (this.hue === 'foldchange') {
-        colorLegendTitle.text('Fold Change:');
-        colorLegendXAxisScale = d3v6.scalePoint();
-        colorLegendXAxis = d3v6.axisBottom(colorLegendXAxisScale);
+    colorLegendGroup
+      .append('rect')
+      .attr('width', width)
+      .attr('height', 20)
+      .style('fill', `url(#${gradientId})`);
+
+    const steps = 100;
+    const gradientRange = Array.from({ length: steps }, (_, i) => i / steps);
+    const interpolator = this._getHueModeInterpolator(hueMode);
+
+    let colorLegendXAxis: d3v6.Axis<d3v6.NumberValue> | d3v6.Axis<string>;
+
+    if (hueMode.scaleType === 'sequential') {
+      linearGradient
+        .selectAll('stop')
+        .data(gradientRange)
+        .enter()
+        .append('stop')
+        .attr('offset', d => d)
+        .attr('stop-color', d => interpolator(d));
+
+      colorLegendXAxis = d3v6
+        .axisBottom(
+          d3v6.scaleLinear().domain([rangeMin, rangeMax]).range([0, width])
+        )
+        .ticks(4);
+    } else {
+      // Leave out the half of the scale that no node is colored by
+      linearGradient
+        .selectAll('stop')
+        .data(gradientRange)
+        .enter()
+        .append('stop')
+        .attr('offset', d => d)
+        .attr('stop-color', d => {
+          if (!anyValuesBelowCenter) return interpolator(0.5 + d / 2);
+          if (!anyValuesAboveCenter) return interpolator(d / 2);
+          return interpolator(d);
+        });
 
-        const upregulatedColor = getComputedStyle(this).getPropertyValue(
-          '--upregulated-color'
+      // The domain of the x axis goes from the lowest to the highest value, with the center in the middle
+      const center = hueMode.center ?? 0;
+      const domain: string[] = [];
+      if (anyValuesBelowCenter) {
+        domain.push(
+          ...[
+            `${rangeMin.toPrecision(2)}`,
+            `${(center + (rangeMin - center) / 2).toPrecision(2)}`,
+          ]
         );
-        const downregulatedColor = getComputedStyle(this).getPropertyValue(
-          '--downregulated-color'
-        );
-        const unregulatedColor = getComputedStyle(this).getPropertyValue(
-          '--unregulated-color-light'
+      }
+      domain.push(`${center}`);
+      if (anyValuesAboveCenter) {
+        domain.push(
+          ...[
+            `${(center + (rangeMax - center) / 2).toPrecision(2)}`,
+            `${rangeMax.toPrecision(2)}`,
+          ]
         );
-
-        linearGradient
-          .selectAll('stop')
-          .data(gradientRange)
-          .enter()
-          .append('stop')
-          .attr('offset', d => d)
-          .attr('stop-color', d => {
-            if (!this.anyDowngoingPTMs) {
-              return d3v6.interpolate(unregulatedColor, upregulatedColor)(d);
-            }
-            if (!this.anyUpgoingPTMs) {
-              return d3v6.interpolate(downregulatedColor, unregulatedColor)(d);
-            }
-            if (d < 0.5) {
-              return d3v6.interpolate(
-                downregulatedColor,
-                unregulatedColor
-              )(d / 0.5);
-            }
-            return d3v6.interpolate(
-              unregulatedColor,
-              upregulatedColor
-            )((d - 0.5) / 0.5);
-          });
-
-        // The domain of the x axis goes from -inf to +inf, with 0 in the center
-        const domain: string[] = [];
-        if (this.anyDowngoingPTMs) {
-          domain.push(
-            ...[
-              `${this.maxNegFoldChange!.toPrecision(2)}`,
-              `${(this.maxNegFoldChange! / 2).toPrecision(2)}`,
-            ]
-          );
-        }
-        domain.push('0');
-        if (this.anyUpgoingPTMs) {
-          domain.push(
-            ...[
-              `${(this.maxPosFoldChange! / 2).toPrecision(2)}`,
-              `${this.maxPosFoldChange!.toPrecision(2)}`,
-            ]
-          );
-        }
-
-        colorLegendXAxisScale
-          .domain(<Iterable<string>>domain)
-          .range([0, legendWidth - 25]);
       }
-
-      colorLegendGroup
-        .append('g')
-        .attr('transform', 'translate(0,25)')
-        .call(colorLegendXAxis!);
+      colorLegendXAxis = d3v6.axisBottom(
+        d3v6.scalePoint().domain(domain).range([0, width])
+      );
     }
+
+    colorLegendGroup
+      .append('g')
+      .attr('transform', 'translate(0,25)')
+      .call(colorLegendXAxis);
   }
 
   private _enableZoomingAndPanning() {
@@ -3276,10 +5612,18 @@ export class BiowcPathwaygraph extends LitElement {
         .select('#linkG')
         .attr('transform', transform.toString());
 
-      // Semantic zooms, right now this just hides/shows the edgelabels
+      // Semantic zooms, this hides/shows the edgelabels and collapses the heatmap strips of the proteins
       this._getMainDiv()
         .selectAll('.edgelabel:not(.legend)')
         .attr('visibility', transform.k < 1 ? 'hidden' : 'visible');
+      const { minZoom } = {
+        ...BiowcPathwaygraph.defaultProteinHeatmapOptions,
+        ...this.proteinHeatmap,
+      };
+      this._getMainDiv()
+        .selectAll('.protein-heatmap')
+        .attr('display', transform.k < minZoom! ? 'none' : null);
+      this._updateDetailCardLeaders();
     };
 
     const zoom = d3v6
@@ -3310,7 +5654,53 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
       : '';
   }
 
-  private static _getPTMTooltipText(node: PTMNodeD3) {
+  // The details in the order and with the number formats of the tooltipOptions
+  private _getTooltipDetails(details?: {
+    [key: string]: string | number;
+  }): [string, string | number][] {
+    if (!details) return [];
+    const { detailKeys, numberFormat } = {
+      ...BiowcPathwaygraph.defaultTooltipOptions,
+      ...this.tooltipOptions,
+    };
+    const entries: [string, string | number][] = detailKeys
+      ? detailKeys
+          .filter(key => Object.hasOwn(details, key))
+          .map(key => [key, details[key]])
+      : Object.entries(details);
+    return entries.map(([key, value]) => {
+      const specifier =
+        typeof numberFormat === 'string' ? numberFormat : numberFormat?.[key];
+      // Numbers may also come as strings from tables, but concatenated values of several entries are left as they are
+      if (specifier && value !== '' && !Number.isNaN(Number(value))) {
+        return [key, d3v6.format(specifier)(Number(value))];
+      }
+      return [key, value];
+    });
+  }
+
+  private _getExternalLinksText(node: PTMNodeD3 | GeneProteinNodeD3) {
+    const { externalLinks } = {
+      ...BiowcPathwaygraph.defaultTooltipOptions,
+      ...this.tooltipOptions,
+    };
+    if (!externalLinks || !node.uniprotAccs || node.uniprotAccs.length === 0) {
+      return '';
+    }
+    const uniprotAcc = node.uniprotAccs[0].split('-')[0];
+    // PTM nodes link to the PTM section of the UniProt entry, and name their site in the links
+    const site =
+      node.type === 'ptm' ? (<PTMNodeD3>node).detailsInternal?.Site : undefined;
+    const uniprotUrl = `https://www.uniprot.org/uniprotkb/${uniprotAcc}/entry${
+      node.type === 'ptm' ? '#ptm_processing' : ''
+    }`;
+    const phosphositeplusUrl = `https://www.phosphosite.org/uniprotAccAction?id=${uniprotAcc}`;
+    return `<li class='tooltip-list-item tooltip-links' style='margin: 5px 0;'><a href='${uniprotUrl}' target='_blank' rel='noopener'>UniProt ${uniprotAcc}</a> | <a href='${phosphositeplusUrl}' target='_blank' rel='noopener'>PhosphoSitePlus${
+      site ? ` ${String(site).split('-')[0]}` : ''
+    }</a></li>`;
+  }
+
+  private _getPTMTooltipText(node: PTMNodeD3) {
     // Estimate required width of the tooltip
     const minTooltipStrongWidth = 150;
     let tooltipStrongWidth = minTooltipStrongWidth;
@@ -3323,11 +5713,19 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
       tooltipStrongWidth = maxKeyLength * 12;
     }
 
-    return `<ul class='tooltip-list' style='list-style-type: none; padding: 0;margin: 0;'>${this._formatTextIfValuePresent(
+    return `<ul class='tooltip-list' style='list-style-type: none; padding: 0;margin: 0;'>${BiowcPathwaygraph._formatTextIfValuePresent(
       'Regulation',
       node.regulation,
       tooltipStrongWidth
-    )}${Object.entries(node.detailsForTooltip!)
+    )}${Object.entries(node.conditions || {})
+      .map(([condition, { regulation }]) =>
+        BiowcPathwaygraph._formatTextIfValuePresent(
+          `Regulation (${condition})`,
+          regulation,
+          tooltipStrongWidth
+        )
+      )
+      .join('')}${this._getTooltipDetails(node.detailsForTooltip)
       .map(([key, value]) =>
         BiowcPathwaygraph._formatTextIfValuePresent(
           key,
@@ -3335,10 +5733,230 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
           tooltipStrongWidth
         )
       )
-      .join('')}</ul>`;
+      .join('')}${(node.contributingPeptides || [])
+      .map(
+        (
+          { Site, Sequence, 'Modified Sequence': modifiedSequence, ...values },
+          i
+        ) =>
+          BiowcPathwaygraph._formatTextIfValuePresent(
+            `Peptide ${i + 1}`,
+            [
+              modifiedSequence || Sequence || Site,
+              ...Object.entries(values).map(
+                ([key, value]) => `${key}: ${value}`
+              ),
+            ].join(', '),
+            tooltipStrongWidth
+          )
+      )
+      .join('')}${this._getExternalLinksText(node)}</ul>${
+      node.doseResponse
+        ? BiowcPathwaygraph._getDoseResponsePlot(node.doseResponse, 220, 130)
+        : ''
+    }`;
   }
 
-  private static _getGeneProteinTooltipText(node: GeneProteinNodeD3) {
+  // The fitted parameters of the dose-response curve, or undefined if they are neither given nor can be fitted
+  private static _getDoseResponseCurve(
+    doseResponse: DoseResponseData
+  ):
+    | Required<Pick<DoseResponseData, 'top' | 'bottom' | 'slope' | 'ec50'>>
+    | undefined {
+    const { top, bottom, slope, ec50 } = doseResponse;
+    if (
+      top !== undefined &&
+      bottom !== undefined &&
+      slope !== undefined &&
+      ec50 !== undefined
+    ) {
+      return { top, bottom, slope, ec50 };
+    }
+    const points = BiowcPathwaygraph._getDoseResponsePoints(doseResponse);
+    return points.length >= 4
+      ? BiowcPathwaygraph._fitDoseResponseCurve(points)
+      : undefined;
+  }
+
+  private static _getDoseResponsePoints(
+    doseResponse: DoseResponseData
+  ): [number, number][] {
+    return (doseResponse.doses || [])
+      .map((dose, i): [number, number] => [
+        dose,
+        Number(doseResponse.responses?.[i]),
+      ])
+      .filter(([dose, response]) => dose > 0 && Number.isFinite(response));
+  }
+
+  // Least-squares fit on a grid of EC50s and slopes. For each of them, the curve is linear in top and bottom,
+  // so these are solved exactly by linear regression.
+  private static _fitDoseResponseCurve(points: [number, number][]) {
+    const logDoses = points.map(([dose]) => Math.log10(dose));
+    const responses = points.map(([, response]) => response);
+    const meanResponse = d3v6.mean(responses)!;
+    const [minLogDose, maxLogDose] = <[number, number]>d3v6.extent(logDoses);
+    let bestFit:
+      | {
+          top: number;
+          bottom: number;
+          slope: number;
+          ec50: number;
+          sse: number;
+        }
+      | undefined;
+    for (const logEc50 of d3v6.range(
+      minLogDose - 1,
+      maxLogDose + 1.01,
+      (maxLogDose - minLogDose + 2) / 60
+    )) {
+      for (const slope of d3v6.range(0.25, 5.01, 0.25)) {
+        const fractions = logDoses.map(
+          logDose => 1 / (1 + 10 ** (slope * (logDose - logEc50)))
+        );
+        const meanFraction = d3v6.mean(fractions)!;
+        const fractionVariance = d3v6.sum(
+          fractions,
+          fraction => (fraction - meanFraction) ** 2
+        );
+        if (fractionVariance > 0) {
+          const amplitude =
+            d3v6.sum(
+              fractions,
+              (fraction, i) =>
+                (fraction - meanFraction) * (responses[i] - meanResponse)
+            ) / fractionVariance;
+          const bottom = meanResponse - amplitude * meanFraction;
+          const sse = d3v6.sum(
+            fractions,
+            (fraction, i) => (responses[i] - bottom - amplitude * fraction) ** 2
+          );
+          if (!bestFit || sse < bestFit.sse) {
+            bestFit = {
+              top: bottom + amplitude,
+              bottom,
+              slope,
+              ec50: 10 ** logEc50,
+              sse,
+            };
+          }
+        }
+      }
+    }
+    if (!bestFit) return undefined;
+    const { top, bottom, slope, ec50 } = bestFit;
+    return { top, bottom, slope, ec50 };
+  }
+
+  // Draws the curve and the measured points of a PTM as an SVG string, for the tooltip and the pinned panel
+  private static _getDoseResponsePlot(
+    doseResponse: DoseResponseData,
+    width: number,
+    height: number
+  ) {
+    const curve = BiowcPathwaygraph._getDoseResponseCurve(doseResponse);
+    const points = BiowcPathwaygraph._getDoseResponsePoints(doseResponse);
+    if (!curve && points.length === 0) return '';
+
+    const margin = { top: 8, right: 10, bottom: 18, left: 40 };
+    // Without measured points, the curve is shown three orders of magnitude around its EC50
+    const doseExtent = <[number, number]>(
+      d3v6.extent(
+        points.length > 0
+          ? points.map(([dose]) => dose).concat(curve ? [curve.ec50] : [])
+          : [curve!.ec50 / 1000, curve!.ec50 * 1000]
+      )
+    );
+    if (doseExtent[0] === doseExtent[1]) {
+      doseExtent[0] /= 10;
+      doseExtent[1] *= 10;
+    }
+    const responseExtent = <[number, number]>(
+      d3v6.extent(
+        points
+          .map(([, response]) => response)
+          .concat(curve ? [curve.top, curve.bottom] : [])
+      )
+    );
+    if (responseExtent[0] === responseExtent[1]) {
+      responseExtent[0] -= 1;
+      responseExtent[1] += 1;
+    }
+    const xScale = d3v6
+      .scaleLog()
+      .domain(doseExtent)
+      .range([margin.left, width - margin.right]);
+    const yScale = d3v6
+      .scaleLinear()
+      .domain(responseExtent)
+      .nice()
+      .range([height - margin.bottom, margin.top]);
+    const formatDose = d3v6.format('.0e');
+    const formatResponse = d3v6.format('.3~g');
+    const [minDose, maxDose] = doseExtent;
+    const [minResponse, maxResponse] = yScale.domain();
+
+    let curveElements = '';
+    if (curve) {
+      const curvePath = d3v6
+        .line<number>()
+        .x(dose => xScale(dose))
+        .y(dose =>
+          yScale(
+            curve.bottom +
+              (curve.top - curve.bottom) /
+                (1 + (dose / curve.ec50) ** curve.slope)
+          )
+        )(d3v6.range(51).map(i => minDose * (maxDose / minDose) ** (i / 50)));
+      curveElements = `<path class='dose-response-curve' d='${curvePath}'/>`;
+      if (curve.ec50 >= minDose && curve.ec50 <= maxDose) {
+        const ec50X = xScale(curve.ec50);
+        curveElements += `<line class='dose-response-ec50' x1='${ec50X}' x2='${ec50X}' y1='${
+          margin.top
+        }' y2='${
+          height - margin.bottom
+        }'/><text class='dose-response-tick' x='${ec50X + 3}' y='${
+          margin.top
+        }' dominant-baseline='hanging'>EC50 ${formatDose(curve.ec50)}</text>`;
+      }
+    }
+
+    const bottomY = height - margin.bottom;
+    return `<svg class='dose-response-plot' width='${width}' height='${height}'><line class='dose-response-axis' x1='${
+      margin.left
+    }' x2='${
+      width - margin.right
+    }' y1='${bottomY}' y2='${bottomY}'/><line class='dose-response-axis' x1='${
+      margin.left
+    }' x2='${margin.left}' y1='${
+      margin.top
+    }' y2='${bottomY}'/><text class='dose-response-tick' x='${
+      margin.left
+    }' y='${height - 4}'>${formatDose(
+      minDose
+    )}</text><text class='dose-response-tick' x='${width - margin.right}' y='${
+      height - 4
+    }' text-anchor='end'>${formatDose(
+      maxDose
+    )}</text><text class='dose-response-tick' x='${margin.left - 4}' y='${
+      margin.top
+    }' text-anchor='end' dominant-baseline='hanging'>${formatResponse(
+      maxResponse
+    )}</text><text class='dose-response-tick' x='${
+      margin.left - 4
+    }' y='${bottomY}' text-anchor='end'>${formatResponse(
+      minResponse
+    )}</text>${curveElements}${points
+      .map(
+        ([dose, response]) =>
+          `<circle class='dose-response-point' cx='${xScale(
+            dose
+          )}' cy='${yScale(response)}' r='2.5'/>`
+      )
+      .join('')}</svg>`;
+  }
+
+  private _getGeneProteinTooltipText(node: GeneProteinNodeD3) {
     // Estimate required width of the tooltip
     const minGeneProteinTooltipStrongWidth = 150;
     let tooltipStrongWidth = minGeneProteinTooltipStrongWidth;
@@ -3379,10 +5997,26 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
             tooltipStrongWidth
           )
         : ''
+    }${
+      node.kinaseActivity
+        ? `${BiowcPathwaygraph._formatTextIfValuePresent(
+            'Kinase Activity',
+            node.kinaseActivity.score.toFixed(2),
+            tooltipStrongWidth
+          )}${BiowcPathwaygraph._formatTextIfValuePresent(
+            'Activity p Value',
+            node.kinaseActivity.pValue.toPrecision(2),
+            tooltipStrongWidth
+          )}${BiowcPathwaygraph._formatTextIfValuePresent(
+            '#Substrates',
+            node.kinaseActivity.nSubstrates,
+            tooltipStrongWidth
+          )}`
+        : ''
     }
     ${
       node.detailsForTooltip
-        ? Object.entries(node.detailsForTooltip)
+        ? this._getTooltipDetails(node.detailsForTooltip)
             .map(([key, value]) =>
               BiowcPathwaygraph._formatTextIfValuePresent(
                 key,
@@ -3392,7 +6026,44 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
             )
             .join('')
         : ''
-    }</ul>`;
+    }${this._getExternalLinksText(node)}</ul>`;
+  }
+
+  private _getCompoundTooltipText(node: CompoundNodeD3) {
+    // Compounds without metabolite data only show their name
+    if (!node.detailsForTooltip) return node.label || '';
+    const tooltipStrongWidth =
+      Object.keys(node.detailsForTooltip).reduce(
+        (currentMax, currentKey) =>
+          currentKey.length > currentMax ? currentKey.length : currentMax,
+        150 / 12
+      ) * 12;
+
+    return `<ul class='tooltip-list' style='list-style-type: none; padding: 0;margin: 0;'>${BiowcPathwaygraph._formatTextIfValuePresent(
+      'Compound',
+      node.label,
+      tooltipStrongWidth
+    )}${BiowcPathwaygraph._formatTextIfValuePresent(
+      'Upregulated',
+      node.nUp,
+      tooltipStrongWidth
+    )}${BiowcPathwaygraph._formatTextIfValuePresent(
+      'Downregulated',
+      node.nDown,
+      tooltipStrongWidth
+    )}${BiowcPathwaygraph._formatTextIfValuePresent(
+      'Unregulated',
+      node.nNot,
+      tooltipStrongWidth
+    )}${this._getTooltipDetails(node.detailsForTooltip)
+      .map(([key, value]) =>
+        BiowcPathwaygraph._formatTextIfValuePresent(
+          key,
+          value,
+          tooltipStrongWidth
+        )
+      )
+      .join('')}</ul>`;
   }
 
   private _enableNodeSelection() {
@@ -3406,6 +6077,11 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
         if (this.applicationMode === 'viewing') {
           // Do not propagate event to canvas, because that would remove the highlighting
           e.stopPropagation();
+          // Shift + Click pins the details of the node as a card, instead of changing the selection
+          if (e.shiftKey) {
+            if (node.type !== 'group') this.pinDetailCard(node.nodeId);
+            return;
+          }
           // Check if it is a double click
           this.recentClicks += 1;
           if (this.recentClicks === 1) {
@@ -3450,10 +6126,7 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
                   // ...if its regulation category is currently shown
                   if (l.target === node)
                     (<PTMNodeD3>l.source).selected =
-                      isSelected &&
-                      this.contextMenuStore?.get(
-                        `show-${(<PTMNodeD3>l.source).regulation}`
-                      );
+                      isSelected && this._isPTMNodeShown(<PTMNodeD3>l.source);
                   // If clicked node is a PTM and it was a selection (not a deselection), we also want to select the protein
                   // We don't want the opposite, so if it is a deselection, don't deselect the protein as well
                   if (l.source === node && isSelected) {
@@ -3482,9 +6155,7 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
                   new CustomEvent('selectedNodeTooltip', {
                     bubbles: true,
                     cancelable: true,
-                    detail: BiowcPathwaygraph._getPTMTooltipText(
-                      node as PTMNodeD3
-                    ),
+                    detail: this._getPTMTooltipText(node as PTMNodeD3),
                   })
                 );
               } else if (node.type.includes('gene_protein') && !e.ctrlKey) {
@@ -3492,11 +6163,21 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
                   new CustomEvent('selectedNodeTooltip', {
                     bubbles: true,
                     cancelable: true,
-                    detail: BiowcPathwaygraph._getGeneProteinTooltipText(
+                    detail: this._getGeneProteinTooltipText(
                       node as GeneProteinNodeD3
                     ),
                   })
                 );
+              } else if (node.type === 'compound' && !e.ctrlKey) {
+                this.dispatchEvent(
+                  new CustomEvent('selectedNodeTooltip', {
+                    bubbles: true,
+                    cancelable: true,
+                    detail: this._getCompoundTooltipText(
+                      node as CompoundNodeD3
+                    ),
+                  })
+                );
               } else {
                 this.dispatchEvent(
                   new CustomEvent('selectedNodeTooltip', {
@@ -3690,6 +6371,7 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
     this._emphasizeSelectedNodes();
     this._initContextMenu();
     this._updateRangeSliderVisibility();
+    this._renderDetailCards();
   }
 
   private _emphasizeSelectedNodes() {
@@ -3780,25 +6462,33 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
     /* eslint-enable no-param-reassign */
   }
 
+  private static _isPTMNodeSelected(ptmNode: PTMNodeD3) {
+    // A PTM node counts as selected if either itself is visible and selected, or its summary node is.
+    return !!(
+      (ptmNode.visible && ptmNode.selected) ||
+      (ptmNode.summaryNode &&
+        ptmNode.summaryNode.visible &&
+        ptmNode.summaryNode.selected)
+    );
+  }
+
   private _sendSelectionDetailsToParent() {
     const selectedPTMNodes: PathwayGraphNodeD3[] = [];
     const selectedProteinNodes: PathwayGraphNodeD3[] = [];
+    const selectedCompoundNodes: CompoundNodeD3[] = [];
     this.d3Nodes!.forEach(node => {
       if (node.type === 'ptm') {
-        const ptmNode = node as PTMNodeD3;
-        // A PTM node counts as selected if either itself is visible and selected, or its summary node is.
-        if (
-          (ptmNode.visible && ptmNode.selected) ||
-          (ptmNode.summaryNode &&
-            ptmNode.summaryNode.visible &&
-            ptmNode.summaryNode.selected)
-        ) {
-          selectedPTMNodes.push(ptmNode);
+        if (BiowcPathwaygraph._isPTMNodeSelected(node as PTMNodeD3)) {
+          selectedPTMNodes.push(node);
         }
       } else if (node.type === 'gene_protein') {
         if (node.selected) {
           selectedProteinNodes.push(node);
         }
+      } else if (node.type === 'compound') {
+        if (node.selected) {
+          selectedCompoundNodes.push(<CompoundNodeD3>node);
+        }
       }
     });
 
@@ -3816,12 +6506,19 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
             .map(node => ({
               Regulation: (<PTMNodeD3>node).regulation,
               ...(<PTMNodeD3>node).detailsInternal,
+              ...((<PTMNodeD3>node).contributingPeptides
+                ? {
+                    'Contributing Peptides': (<PTMNodeD3>node)
+                      .contributingPeptides,
+                  }
+                : {}),
             })),
           selection_protein: selectedProteinNodes
             .filter(
               node =>
-                Object.hasOwn(node, 'detailsInternal') &&
-                !!(<GeneProteinNodeD3>node).detailsInternal
+                (Object.hasOwn(node, 'detailsInternal') &&
+                  !!(<GeneProteinNodeD3>node).detailsInternal) ||
+                !!(<GeneProteinNodeD3>node).kinaseActivity
             )
             .map(node => ({
               Regulation: BiowcPathwaygraph._computeRegulationClass(
@@ -3833,13 +6530,66 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
               '#Up': (<GeneProteinNodeD3>node).nUp,
               '#Down': (<GeneProteinNodeD3>node).nDown,
               '#Not': (<GeneProteinNodeD3>node).nNot,
+              ...BiowcPathwaygraph._getKinaseActivityDetails(
+                <GeneProteinNodeD3>node
+              ),
               ...(<GeneProteinNodeD3>node).detailsInternal!,
             })),
+          selection_metabolite: selectedCompoundNodes
+            .filter(node => !!node.detailsInternal)
+            .map(node => ({
+              Regulation: BiowcPathwaygraph._computeRegulationClass(node),
+              Compound: node.label,
+              '#Up': node.nUp,
+              '#Down': node.nDown,
+              '#Not': node.nNot,
+              ...node.detailsInternal!,
+            })),
         },
       })
     );
   }
 
+  private static _getKinaseActivityDetails(node: GeneProteinNodeD3) {
+    if (!node.kinaseActivity) return {};
+    return {
+      'Kinase Activity': node.kinaseActivity.score,
+      'Kinase Activity p Value': node.kinaseActivity.pValue,
+      'Kinase Activity Method': node.kinaseActivity.method,
+      '#Substrates': node.kinaseActivity.nSubstrates,
+    };
+  }
+
+  // The modification types in the PTM input, in the order of the modificationTypes table
+  private _getModificationTypes(): PossibleModificationType[] {
+    const modificationTypesInInput = new Set(
+      (this.ptmInputList || []).map(
+        ptmInputEntry => ptmInputEntry.modificationType || 'phospho'
+      )
+    );
+    return (<PossibleModificationType[]>(
+      Object.keys(BiowcPathwaygraph.modificationTypes)
+    )).filter(modificationType =>
+      modificationTypesInInput.has(modificationType)
+    );
+  }
+
+  private static _getPTMGlyph(ptmNode: PTMNode) {
+    return BiowcPathwaygraph.modificationTypes[
+      ptmNode.modificationType || 'phospho'
+    ].glyph;
+  }
+
+  // Whether both the regulation category and the modification type of a PTM node are currently shown, see the 'Show...' context menu
+  private _isPTMNodeShown(ptmNode: PTMNode | PTMSummaryNode): boolean {
+    return (
+      !!this.contextMenuStore?.get(`show-${ptmNode.regulation}`) &&
+      !!this.contextMenuStore?.get(
+        `show-type-${ptmNode.modificationType || 'phospho'}`
+      )
+    );
+  }
+
   private _updatePeptideNodeLabels() {
     this.d3Nodes!.forEach(node => {
       if (node.type === 'ptm') {
@@ -3848,7 +6598,11 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
         if (ptmNode.detailsInternal?.Site) {
           // Dear eslint, I do not believe that the use of destructuring would make it more obvious what I'm doing here
           // eslint-disable-next-line prefer-destructuring
-          ptmNodeLabel = String(ptmNode.detailsInternal!.Site).split('-p')[0];
+          ptmNodeLabel = String(ptmNode.detailsInternal!.Site).split(
+            BiowcPathwaygraph.modificationTypes[
+              ptmNode.modificationType || 'phospho'
+            ].siteSuffix
+          )[0];
         } else {
           ptmNodeLabel =
             ptmNode.detailsInternal!['Modified Sequence'] ||
@@ -3907,9 +6661,18 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
     return res;
   }
 
-  private _prepareForExport() {
+  private _prepareForExport(
+    includeLegend: boolean = true,
+    includeDetailCards: boolean = false
+  ) {
     const svg = this.shadowRoot?.querySelector('svg') as SVGSVGElement;
 
+    // Make sure ptmlinks are invisible (they should be already
+    // but due to some bug they sometimes aren't)
+    this._getMainDiv()
+      .selectAll<SVGLineElement, PathwayGraphLinkD3>('.linkgroup.ptmlink')
+      .attr('display', 'none');
+
     // To calculate the size of the exported svg, get the current x and y translate of the canvas
     // and add the largest x/y coordinates across all nodes
     const [nodeGTransformX, nodeGTransformY, scale] =
@@ -3922,10 +6685,12 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
     const legendSVG = this._getMainDiv()
       .select<SVGElement>('#pathwayLegend')
       .select('rect');
-    let [maxNodeX, maxNodeY] = [
-      Number(legendSVG.attr('width')) + 10,
-      Number(legendSVG.attr('height')) + 10,
-    ];
+    let [maxNodeX, maxNodeY] = includeLegend
+      ? [
+          Number(legendSVG.attr('width')) + 10,
+          Number(legendSVG.attr('height')) + 10,
+        ]
+      : [0, 0];
     this._getMainDiv()
       .select('#nodeG')
       .selectAll<SVGElement, PathwayGraphNodeD3>('.node')
@@ -3939,13 +6704,27 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
         maxNodeY = Math.max(currentNodeY, maxNodeY);
       });
 
+    // The detail cards are not scaled, so they extend the frame on their own
+    const [detailCardsMaxX, detailCardsMaxY] = includeDetailCards
+      ? this.detailCards.reduce(
+          ([maxX, maxY], detailCard) => [
+            Math.max(maxX, detailCard.x + (detailCard.width || 0)),
+            Math.max(maxY, detailCard.y + (detailCard.height || 0)),
+          ],
+          [0, 0]
+        )
+      : [0, 0];
     svg.setAttribute(
       'width',
-      (nodeGTransformX + maxNodeX * scale + 25).toString()
+      (
+        Math.max(nodeGTransformX + maxNodeX * scale, detailCardsMaxX) + 25
+      ).toString()
     );
     svg.setAttribute(
       'height',
-      (nodeGTransformY + maxNodeY * scale + 25).toString()
+      (
+        Math.max(nodeGTransformY + maxNodeY * scale, detailCardsMaxY) + 25
+      ).toString()
     );
 
     // In order to make the svg readable by Illustrator, we need to inline the styles.
@@ -3967,7 +6746,7 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
             );
         } else {
           /*
-          'fill' of ptmnodes is a bit tricky.
+          'fill' of ptmnodes and other elements that are colored by their values is a bit tricky.
           In general, it is defined in the stylesheet so if we don't set the value here it is lost in the downloaded SVG.
           But it might have been changed if the user switched the color scheme, and then we don't want to override it with the original colour.
           We are using a hacky trick here: If we access the by node.style('fill') (which would be the cleaner way), we will always get a RESOLVED value
@@ -3979,10 +6758,7 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
             .selectAll(currentRule.selectorText)
             .each(function () {
               const node = d3v6.select(this);
-              if (
-                !node.attr('class').includes('ptm') ||
-                !node.attr('style').includes('fill:')
-              ) {
+              if (!(node.attr('style') || '').includes('fill:')) {
                 node.style('fill', currentRule.style.getPropertyValue('fill'));
               }
             });
@@ -3990,7 +6766,12 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
       }
     }
 
+    const legend = this._getMainDiv().select('#pathwayLegend');
+    if (!includeLegend) legend.attr('display', 'none');
+    this._hideDetailCardsForExport(includeDetailCards);
     let serializedSVG = svg.outerHTML!;
+    legend.attr('display', null);
+    this._showDetailCardsAfterExport();
 
     // Now the ':hostRule':
     // We need to inject the css custom properties (the '--<name>:' variables at the top of the stylesheet)
@@ -4010,107 +6791,2740 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
         }
       });
 
-    // Load xmlns
-    if (
-      !serializedSVG.match(/^<svg[^>]+xmlns="http:\/\/www\.w3\.org\/2000\/svg"/)
-    ) {
-      serializedSVG = serializedSVG.replace(
-        /^<svg/,
-        '<svg xmlns="http://www.w3.org/2000/svg"'
-      );
+    // Load xmlns
+    if (
+      !serializedSVG.match(/^<svg[^>]+xmlns="http:\/\/www\.w3\.org\/2000\/svg"/)
+    ) {
+      serializedSVG = serializedSVG.replace(
+        /^<svg/,
+        '<svg xmlns="http://www.w3.org/2000/svg"'
+      );
+    }
+    if (
+      !serializedSVG.match(/^<svg[^>]+"http:\/\/www\.w3\.org\/1999\/xlink"/)
+    ) {
+      serializedSVG = serializedSVG.replace(
+        /^<svg/,
+        '<svg xmlns:xlink="http://www.w3.org/1999/xlink"'
+      );
+    }
+
+    return serializedSVG;
+  }
+
+  // The close buttons are not part of the figure, and the cards themselves only if they are included
+  private _hideDetailCardsForExport(includeDetailCards: boolean) {
+    const detailCardsG = this._getMainDiv().select('#detailCards');
+    if (!includeDetailCards) detailCardsG.attr('display', 'none');
+    detailCardsG.selectAll('.detail-card-close').attr('display', 'none');
+  }
+
+  private _showDetailCardsAfterExport() {
+    const detailCardsG = this._getMainDiv().select('#detailCards');
+    detailCardsG.attr('display', null);
+    detailCardsG.selectAll('.detail-card-close').attr('display', null);
+  }
+
+  public downloadSvg(options: SvgExportOptions = {}) {
+    const { includeLegend, includeDetailCards } = {
+      ...BiowcPathwaygraph.defaultSvgExportOptions,
+      ...options,
+    };
+    const serializedSVG = this._prepareForExport(
+      includeLegend,
+      includeDetailCards
+    );
+    const blob = new Blob([serializedSVG], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.download = 'pathwaygraph.svg';
+    a.href = url;
+    a.click();
+  }
+
+  public downloadPng(options: RasterExportOptions = {}) {
+    return this.toBlob(options).then(blob => {
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.download = 'pathwaygraph.png';
+      a.href = url;
+      a.click();
+    });
+  }
+
+  public toBlob(options: RasterExportOptions = {}): Promise<Blob> {
+    // Returns the diagram as a PNG, e.g. for previews or the clipboard
+    return this._rasterize(options).then(
+      canvas =>
+        new Promise((resolve, reject) => {
+          canvas.toBlob(blob => {
+            if (blob) {
+              resolve(blob);
+            } else {
+              reject(new Error('Could not export the diagram as PNG.'));
+            }
+          }, 'image/png');
+        })
+    );
+  }
+
+  public toDataURL(options: RasterExportOptions = {}): Promise<string> {
+    return this._rasterize(options).then(canvas =>
+      canvas.toDataURL('image/png')
+    );
+  }
+
+  private _rasterize(options: RasterExportOptions) {
+    // Draws the exported SVG onto the (otherwise unused) canvas of the component
+    const { scale, background, includeLegend, includeDetailCards } = {
+      ...BiowcPathwaygraph.defaultRasterExportOptions,
+      ...options,
+    };
+    const serializedSVG = this._prepareForExport(
+      includeLegend,
+      includeDetailCards
+    );
+    const svg = this.shadowRoot?.querySelector('svg') as SVGSVGElement;
+    const canvas = this.shadowRoot?.querySelector(
+      '#canvasId'
+    ) as HTMLCanvasElement;
+    canvas.width = Math.ceil(Number(svg.getAttribute('width')) * scale);
+    canvas.height = Math.ceil(Number(svg.getAttribute('height')) * scale);
+
+    const url = URL.createObjectURL(
+      new Blob([serializedSVG], { type: 'image/svg+xml;charset=utf-8' })
+    );
+    const image = new Image();
+    return new Promise<HTMLCanvasElement>((resolve, reject) => {
+      image.onload = () => {
+        const context = canvas.getContext('2d')!;
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        if (background !== 'transparent') {
+          context.fillStyle = background;
+          context.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        // The SVG is drawn at the target size, so it stays sharp at any scale
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        URL.revokeObjectURL(url);
+        resolve(canvas);
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('Could not export the diagram as PNG.'));
+      };
+      image.src = url;
+    });
+  }
+
+  public downloadPdf(options: PdfExportOptions = {}) {
+    const url = URL.createObjectURL(this.toPdfBlob(options));
+
+    const a = document.createElement('a');
+    a.download = 'pathwaygraph.pdf';
+    a.href = url;
+    a.click();
+  }
+
+  public toPdfBlob(options: PdfExportOptions = {}) {
+    return new Blob([this._writePdf(options)], { type: 'application/pdf' });
+  }
+
+  private _writePdf(options: PdfExportOptions) {
+    // Writes the diagram as a single-page vector PDF. Instead of going through the serialized SVG, the rendered
+    // elements are traversed, so that transformations and styles are already resolved by the browser.
+    const { pageSize, orientation, margin, includeLegend, includeDetailCards } =
+      {
+        ...BiowcPathwaygraph.defaultPdfExportOptions,
+        ...options,
+      };
+    this._prepareForExport(includeLegend, includeDetailCards);
+    const svg = this.shadowRoot?.querySelector('svg') as SVGSVGElement;
+    const svgWidth = Number(svg.getAttribute('width'));
+    const svgHeight = Number(svg.getAttribute('height'));
+
+    // Without a page size, the page fits the diagram at 96 DPI (0.75 pt per pixel)
+    let [pageWidth, pageHeight] = [
+      svgWidth * 0.75 + 2 * margin,
+      svgHeight * 0.75 + 2 * margin,
+    ];
+    if (pageSize !== 'fit') {
+      [pageWidth, pageHeight] =
+        typeof pageSize === 'string'
+          ? BiowcPathwaygraph.pdfPageSizes[pageSize]
+          : pageSize;
+      if ((orientation === 'landscape') !== pageWidth > pageHeight) {
+        [pageWidth, pageHeight] = [pageHeight, pageWidth];
+      }
+    }
+    const scale = Math.min(
+      (pageWidth - 2 * margin) / svgWidth,
+      (pageHeight - 2 * margin) / svgHeight
+    );
+
+    const context: PdfDrawingContext = {
+      operators: [],
+      graphicsStates: [],
+      shadings: [],
+      rootMatrix: svg.getScreenCTM()!.inverse(),
+    };
+    // Center the diagram on the page and flip the y axis, which points upwards in PDF
+    context.operators.push(
+      `${BiowcPathwaygraph._formatPdfNumbers([
+        scale,
+        0,
+        0,
+        -scale,
+        (pageWidth - svgWidth * scale) / 2,
+        pageHeight - (pageHeight - svgHeight * scale) / 2,
+      ])} cm`
+    );
+    const legend = this._getMainDiv().select('#pathwayLegend');
+    if (!includeLegend) legend.attr('display', 'none');
+    this._hideDetailCardsForExport(includeDetailCards);
+    Array.from(svg.children).forEach(child =>
+      this._drawPdfElement(<SVGElement>child, context, 1)
+    );
+    legend.attr('display', null);
+    this._showDetailCardsAfterExport();
+
+    // Assemble the objects of the file, the fonts are the standard fonts every PDF reader has
+    const content = context.operators.join('\n');
+    const fontNames = [
+      'Helvetica',
+      'Helvetica-Bold',
+      'Helvetica-Oblique',
+      'Helvetica-BoldOblique',
+    ];
+    const firstFontObject = 5;
+    const firstGraphicsStateObject = firstFontObject + fontNames.length;
+    const firstShadingObject =
+      firstGraphicsStateObject + context.graphicsStates.length;
+    const resources = `<< /Font << ${fontNames
+      .map((_, i) => `/F${i + 1} ${firstFontObject + i} 0 R`)
+      .join(' ')} >> /ExtGState << ${context.graphicsStates
+      .map((_, i) => `/GS${i} ${firstGraphicsStateObject + i} 0 R`)
+      .join(' ')} >> /Shading << ${context.shadings
+      .map((_, i) => `/Sh${i} ${firstShadingObject + i} 0 R`)
+      .join(' ')} >> >>`;
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${BiowcPathwaygraph._formatPdfNumbers(
+        [pageWidth, pageHeight]
+      )}] /Resources ${resources} /Contents 4 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      ...fontNames.map(
+        fontName =>
+          `<< /Type /Font /Subtype /Type1 /BaseFont /${fontName} /Encoding /WinAnsiEncoding >>`
+      ),
+      ...context.graphicsStates.map(
+        ([fillAlpha, strokeAlpha]) =>
+          `<< /Type /ExtGState /ca ${fillAlpha} /CA ${strokeAlpha} >>`
+      ),
+      ...context.shadings,
+    ];
+
+    // All content is ASCII, so the length of the strings equals their length in bytes
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(pdf.length);
+      pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets
+      .map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`)
+      .join('')}`;
+    pdf += `trailer\n<< /Size ${
+      objects.length + 1
+    } /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return pdf;
+  }
+
+  private _drawPdfElement(
+    element: SVGElement,
+    context: PdfDrawingContext,
+    parentOpacity: number,
+    // Markers and patterns are drawn in a coordinate system that has already been set up
+    matrix?: number[]
+  ) {
+    const tagName = element.tagName.toLowerCase();
+    const style = getComputedStyle(element);
+    if (
+      style.display === 'none' ||
+      element.getAttribute('display') === 'none' ||
+      [
+        'defs',
+        'clippath',
+        'marker',
+        'pattern',
+        'lineargradient',
+        'title',
+      ].includes(tagName)
+    ) {
+      return;
+    }
+    const opacity = parentOpacity * Number(style.opacity || 1);
+    if (['g', 'svg', 'a'].includes(tagName)) {
+      Array.from(element.children).forEach(child =>
+        this._drawPdfElement(<SVGElement>child, context, opacity, matrix)
+      );
+      return;
+    }
+    if (style.visibility === 'hidden' || opacity === 0) return;
+
+    let elementMatrix = matrix;
+    if (!elementMatrix) {
+      const screenMatrix = (<SVGGraphicsElement>element).getScreenCTM();
+      if (!screenMatrix) return;
+      const { a, b, c, d, e, f } = context.rootMatrix.multiply(screenMatrix);
+      elementMatrix = [a, b, c, d, e, f];
+    }
+    const fill = this._resolvePdfPaint(element, 'fill');
+    const fillOpacity = opacity * Number(style.fillOpacity || 1);
+
+    if (tagName === 'text') {
+      const text = element.textContent?.trim();
+      const fillColor = BiowcPathwaygraph._parsePdfColor(fill);
+      if (!text || !fillColor) return;
+      const fontSize = parseFloat(style.fontSize) || 16;
+      const isBold =
+        style.fontWeight === 'bold' || Number(style.fontWeight) >= 600;
+      const isItalic = ['italic', 'oblique'].includes(style.fontStyle);
+      const fontIndex = 1 + (isBold ? 1 : 0) + (isItalic ? 2 : 0);
+      const parseLength = (attribute: string) => {
+        const value = element.getAttribute(attribute) ?? '0';
+        return parseFloat(value) * (value.endsWith('em') ? fontSize : 1) || 0;
+      };
+      let x = parseLength('x') + parseLength('dx');
+      let y = parseLength('y') + parseLength('dy');
+      // PDF has no text anchors and baselines, so the position is adjusted with the measures of the browser
+      const textLength = (<SVGTextContentElement>(
+        (<unknown>element)
+      )).getComputedTextLength();
+      if (style.textAnchor === 'middle') x -= textLength / 2;
+      if (style.textAnchor === 'end') x -= textLength;
+      if (['central', 'middle'].includes(style.dominantBaseline)) {
+        y += 0.35 * fontSize;
+      }
+      if (['hanging', 'text-before-edge'].includes(style.dominantBaseline)) {
+        y += 0.8 * fontSize;
+      }
+      context.operators.push(
+        'q',
+        `${BiowcPathwaygraph._formatPdfNumbers(elementMatrix)} cm`,
+        BiowcPathwaygraph._getPdfGraphicsState(
+          context,
+          fillOpacity * fillColor[3],
+          1
+        ),
+        `${BiowcPathwaygraph._formatPdfNumbers(fillColor.slice(0, 3))} rg`,
+        // The text matrix flips the glyphs back, because the y axis of the page has been flipped
+        `BT /F${fontIndex} ${BiowcPathwaygraph._formatPdfNumbers([
+          fontSize,
+        ])} Tf ${BiowcPathwaygraph._formatPdfNumbers([
+          1,
+          0,
+          0,
+          -1,
+          x,
+          y,
+        ])} Tm ${BiowcPathwaygraph._formatPdfString(text)} Tj ET`,
+        'Q'
+      );
+      return;
+    }
+
+    const path = BiowcPathwaygraph._getPdfPath(element);
+    if (!path) return;
+    const isEvenOdd = style.fillRule === 'evenodd';
+    context.operators.push(
+      'q',
+      `${BiowcPathwaygraph._formatPdfNumbers(elementMatrix)} cm`
+    );
+
+    // Clip paths are only supported with shapes as children
+    const clipPathId = style.clipPath.match(/#([^"')]+)/)?.[1];
+    const clipPathElement = clipPathId
+      ? this.shadowRoot?.getElementById(clipPathId)
+      : null;
+    if (clipPathElement) {
+      const clipPath = Array.from(clipPathElement.children)
+        .map(child => BiowcPathwaygraph._getPdfPath(<SVGElement>child))
+        .join('\n');
+      if (clipPath) context.operators.push(clipPath, 'W n');
+    }
+
+    const fillColor = BiowcPathwaygraph._parsePdfColor(fill);
+    const fillReferenceId = fill.match(/url\(["']?#([^"')]+)/)?.[1];
+    if (fillColor) {
+      context.operators.push(
+        BiowcPathwaygraph._getPdfGraphicsState(
+          context,
+          fillOpacity * fillColor[3],
+          1
+        ),
+        `${BiowcPathwaygraph._formatPdfNumbers(fillColor.slice(0, 3))} rg`,
+        path,
+        isEvenOdd ? 'f*' : 'f'
+      );
+    } else if (fillReferenceId) {
+      this._drawPdfPaintServer(
+        element,
+        fillReferenceId,
+        path,
+        isEvenOdd,
+        context,
+        fillOpacity
+      );
+    }
+
+    const strokeColor = BiowcPathwaygraph._parsePdfColor(
+      this._resolvePdfPaint(element, 'stroke')
+    );
+    const strokeWidth = parseFloat(style.strokeWidth);
+    if (strokeColor && strokeWidth > 0) {
+      const dashArray = style.strokeDasharray
+        .split(/[\s,]+/)
+        .map(parseFloat)
+        .filter(dash => !Number.isNaN(dash));
+      context.operators.push(
+        BiowcPathwaygraph._getPdfGraphicsState(
+          context,
+          1,
+          opacity * Number(style.strokeOpacity || 1) * strokeColor[3]
+        ),
+        `${BiowcPathwaygraph._formatPdfNumbers(strokeColor.slice(0, 3))} RG`,
+        `${BiowcPathwaygraph._formatPdfNumbers([strokeWidth])} w`,
+        `${Math.max(
+          ['butt', 'round', 'square'].indexOf(style.strokeLinecap),
+          0
+        )} J`,
+        `${Math.max(
+          ['miter', 'round', 'bevel'].indexOf(style.strokeLinejoin),
+          0
+        )} j`,
+        `[${BiowcPathwaygraph._formatPdfNumbers(dashArray)}] 0 d`,
+        path,
+        'S'
+      );
+    }
+
+    // Arrow heads at the end of links
+    const markerId = style.markerEnd.match(/#([^"')]+)/)?.[1];
+    const markerElement = markerId
+      ? this.shadowRoot?.getElementById(markerId)
+      : null;
+    if (markerElement && tagName === 'line') {
+      const line = <SVGLineElement>(<unknown>element);
+      const [x1, y1, x2, y2] = [line.x1, line.y1, line.x2, line.y2].map(
+        length => length.baseVal.value
+      );
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const [, , viewBoxWidth, viewBoxHeight] = (
+        markerElement.getAttribute('viewBox') ?? '0 0 3 3'
+      )
+        .split(/[\s,]+/)
+        .map(Number);
+      const markerScaleX =
+        (Number(markerElement.getAttribute('markerWidth') ?? 3) /
+          viewBoxWidth) *
+        (strokeWidth || 1);
+      const markerScaleY =
+        (Number(markerElement.getAttribute('markerHeight') ?? 3) /
+          viewBoxHeight) *
+        (strokeWidth || 1);
+      const refX = Number(markerElement.getAttribute('refX') ?? 0);
+      const refY = Number(markerElement.getAttribute('refY') ?? 0);
+      context.operators.push(
+        'q',
+        `${BiowcPathwaygraph._formatPdfNumbers([
+          Math.cos(angle),
+          Math.sin(angle),
+          -Math.sin(angle),
+          Math.cos(angle),
+          x2,
+          y2,
+        ])} cm`,
+        `${BiowcPathwaygraph._formatPdfNumbers([
+          markerScaleX,
+          0,
+          0,
+          markerScaleY,
+          -refX * markerScaleX,
+          -refY * markerScaleY,
+        ])} cm`
+      );
+      Array.from(markerElement.children).forEach(child =>
+        this._drawPdfElement(
+          <SVGElement>child,
+          context,
+          opacity,
+          [1, 0, 0, 1, 0, 0]
+        )
+      );
+      context.operators.push('Q');
+    }
+    context.operators.push('Q');
+  }
+
+  private _drawPdfPaintServer(
+    element: SVGElement,
+    paintServerId: string,
+    path: string,
+    isEvenOdd: boolean,
+    context: PdfDrawingContext,
+    fillOpacity: number
+  ) {
+    // Gradients and patterns are drawn into the shape by clipping to it
+    const paintServer = this.shadowRoot?.getElementById(paintServerId);
+    if (!paintServer) return;
+    const bbox = (<SVGGraphicsElement>element).getBBox();
+    context.operators.push(
+      'q',
+      path,
+      isEvenOdd ? 'W* n' : 'W n',
+      BiowcPathwaygraph._getPdfGraphicsState(context, fillOpacity, 1)
+    );
+
+    if (paintServer.tagName.toLowerCase() === 'lineargradient') {
+      const getCoordinate = (attribute: string, defaultValue: string) => {
+        const value = paintServer.getAttribute(attribute) ?? defaultValue;
+        return value.endsWith('%') ? parseFloat(value) / 100 : Number(value);
+      };
+      const stops = Array.from(paintServer.querySelectorAll('stop'))
+        .map(stop => {
+          const offset = stop.getAttribute('offset') ?? '0';
+          return {
+            offset: offset.endsWith('%')
+              ? parseFloat(offset) / 100
+              : Number(offset),
+            color: BiowcPathwaygraph._parsePdfColor(
+              stop.getAttribute('stop-color') ??
+                getComputedStyle(stop).stopColor
+            ),
+          };
+        })
+        .filter(stop => !!stop.color);
+      if (stops.length > 0) {
+        // The coordinates are relative to the bounding box of the shape
+        const coordinates = [
+          bbox.x + getCoordinate('x1', '0%') * bbox.width,
+          bbox.y + getCoordinate('y1', '0%') * bbox.height,
+          bbox.x + getCoordinate('x2', '100%') * bbox.width,
+          bbox.y + getCoordinate('y2', '0%') * bbox.height,
+        ];
+        context.operators.push(`/Sh${context.shadings.length} sh`);
+        context.shadings.push(
+          BiowcPathwaygraph._getPdfShading(
+            coordinates,
+            stops.map(stop => ({
+              offset: stop.offset,
+              color: stop.color!.slice(0, 3),
+            }))
+          )
+        );
+      }
+    } else if (paintServer.tagName.toLowerCase() === 'pattern') {
+      // The tiles of the pattern are repeated across the bounding box of the shape
+      const tileWidth = Number(paintServer.getAttribute('width'));
+      const tileHeight = Number(paintServer.getAttribute('height'));
+      const patternMatrix = (<SVGPatternElement>(
+        (<unknown>paintServer)
+      )).patternTransform.baseVal.consolidate()?.matrix;
+      const { a, b, c, d, e, f } = patternMatrix ?? new DOMMatrix();
+      const inverseMatrix = new DOMMatrix([a, b, c, d, e, f]).inverse();
+      const corners = [
+        [bbox.x, bbox.y],
+        [bbox.x + bbox.width, bbox.y],
+        [bbox.x, bbox.y + bbox.height],
+        [bbox.x + bbox.width, bbox.y + bbox.height],
+      ].map(([x, y]) => inverseMatrix.transformPoint(new DOMPoint(x, y)));
+      const [minX, maxX, minY, maxY] = [
+        Math.min(...corners.map(corner => corner.x)),
+        Math.max(...corners.map(corner => corner.x)),
+        Math.min(...corners.map(corner => corner.y)),
+        Math.max(...corners.map(corner => corner.y)),
+      ];
+      if (tileWidth > 0 && tileHeight > 0) {
+        context.operators.push(
+          `${BiowcPathwaygraph._formatPdfNumbers([a, b, c, d, e, f])} cm`
+        );
+        for (
+          let tileX = Math.floor(minX / tileWidth) * tileWidth;
+          tileX < maxX;
+          tileX += tileWidth
+        ) {
+          for (
+            let tileY = Math.floor(minY / tileHeight) * tileHeight;
+            tileY < maxY;
+            tileY += tileHeight
+          ) {
+            Array.from(paintServer.children).forEach(child =>
+              this._drawPdfElement(<SVGElement>child, context, 1, [
+                1,
+                0,
+                0,
+                1,
+                tileX,
+                tileY,
+              ])
+            );
+          }
+        }
+      }
+    }
+    context.operators.push('Q');
+  }
+
+  private _resolvePdfPaint(
+    element: SVGElement,
+    paintProperty: 'fill' | 'stroke'
+  ) {
+    // Presentation attributes with css custom properties, as in the markers and patterns, are resolved by hand
+    const attributeValue = element.getAttribute(paintProperty);
+    const customPropertyName = attributeValue?.match(/var\((--[\w-]+)\)/)?.[1];
+    if (customPropertyName) {
+      return getComputedStyle(this).getPropertyValue(customPropertyName).trim();
+    }
+    return getComputedStyle(element).getPropertyValue(paintProperty);
+  }
+
+  private static _parsePdfColor(color: string) {
+    // Returns red, green, blue and alpha between 0 and 1, or undefined for 'none' and references like url(#...)
+    if (!color || color === 'none' || color.startsWith('url')) return undefined;
+    // Let the browser normalize any css color to either #rrggbb or rgba(...)
+    const colorContext = document.createElement('canvas').getContext('2d')!;
+    colorContext.fillStyle = '#010203';
+    colorContext.fillStyle = color;
+    const normalizedColor = String(colorContext.fillStyle);
+    if (normalizedColor === '#010203' && color !== '#010203') return undefined;
+    if (normalizedColor.startsWith('#')) {
+      return [1, 3, 5]
+        .map(i => parseInt(normalizedColor.slice(i, i + 2), 16) / 255)
+        .concat(1);
+    }
+    const [red, green, blue, alpha] = normalizedColor
+      .replace(/[^\d.,]/g, '')
+      .split(',')
+      .map(Number);
+    return [red / 255, green / 255, blue / 255, alpha ?? 1];
+  }
+
+  private static _getPdfGraphicsState(
+    context: PdfDrawingContext,
+    fillAlpha: number,
+    strokeAlpha: number
+  ) {
+    // Transparency needs a graphics state resource, one is created for each combination of alpha values
+    const alphas = [fillAlpha, strokeAlpha].map(alpha =>
+      Number(Math.min(Math.max(alpha, 0), 1).toFixed(3))
+    );
+    let index = context.graphicsStates.findIndex(
+      ([fill, stroke]) => fill === alphas[0] && stroke === alphas[1]
+    );
+    if (index === -1) {
+      index = context.graphicsStates.length;
+      context.graphicsStates.push(alphas);
+    }
+    return `/GS${index} gs`;
+  }
+
+  private static _getPdfShading(
+    coordinates: number[],
+    stops: { offset: number; color: number[] }[]
+  ) {
+    // An axial shading whose color function interpolates linearly between each pair of consecutive stops
+    const sortedStops = [...stops].sort((a, b) => a.offset - b.offset);
+    const colorFunctions = sortedStops
+      .slice(0, -1)
+      .map(
+        (stop, i) =>
+          `<< /FunctionType 2 /Domain [0 1] /C0 [${BiowcPathwaygraph._formatPdfNumbers(
+            stop.color
+          )}] /C1 [${BiowcPathwaygraph._formatPdfNumbers(
+            sortedStops[i + 1].color
+          )}] /N 1 >>`
+      );
+    const colorFunction =
+      colorFunctions.length === 0
+        ? `<< /FunctionType 2 /Domain [0 1] /C0 [${BiowcPathwaygraph._formatPdfNumbers(
+            sortedStops[0].color
+          )}] /C1 [${BiowcPathwaygraph._formatPdfNumbers(
+            sortedStops[0].color
+          )}] /N 1 >>`
+        : `<< /FunctionType 3 /Domain [${BiowcPathwaygraph._formatPdfNumbers([
+            sortedStops[0].offset,
+            sortedStops[sortedStops.length - 1].offset,
+          ])}] /Functions [${colorFunctions.join(
+            ' '
+          )}] /Bounds [${BiowcPathwaygraph._formatPdfNumbers(
+            sortedStops.slice(1, -1).map(stop => stop.offset)
+          )}] /Encode [${colorFunctions.map(() => '0 1').join(' ')}] >>`;
+    // The offsets of the first and last stop map to the start and end of the axis
+    const [x1, y1, x2, y2] = coordinates;
+    const first = sortedStops[0].offset;
+    const last = sortedStops[sortedStops.length - 1].offset;
+    return `<< /ShadingType 2 /ColorSpace /DeviceRGB /Coords [${BiowcPathwaygraph._formatPdfNumbers(
+      [
+        x1 + (x2 - x1) * first,
+        y1 + (y2 - y1) * first,
+        x1 + (x2 - x1) * last,
+        y1 + (y2 - y1) * last,
+      ]
+    )}] /Domain [${BiowcPathwaygraph._formatPdfNumbers([
+      first,
+      last,
+    ])}] /Function ${colorFunction} /Extend [true true] >>`;
+  }
+
+  private static _getPdfPath(element: SVGElement) {
+    // Converts a basic shape or path into PDF path operators, in the user space of the element
+    const operators: string[] = [];
+    const format = BiowcPathwaygraph._formatPdfNumbers;
+    const moveTo = (x: number, y: number) =>
+      operators.push(`${format([x, y])} m`);
+    const lineTo = (x: number, y: number) =>
+      operators.push(`${format([x, y])} l`);
+    const curveTo = (...points: number[]) =>
+      operators.push(`${format(points)} c`);
+    // Control point distance for approximating a quarter ellipse with a cubic bezier curve
+    const kappa = 0.5522847498;
+    const ellipse = (cx: number, cy: number, rx: number, ry: number) => {
+      moveTo(cx + rx, cy);
+      curveTo(cx + rx, cy + kappa * ry, cx + kappa * rx, cy + ry, cx, cy + ry);
+      curveTo(cx - kappa * rx, cy + ry, cx - rx, cy + kappa * ry, cx - rx, cy);
+      curveTo(cx - rx, cy - kappa * ry, cx - kappa * rx, cy - ry, cx, cy - ry);
+      curveTo(cx + kappa * rx, cy - ry, cx + rx, cy - kappa * ry, cx + rx, cy);
+      operators.push('h');
+    };
+    const getLength = (attribute: string) =>
+      parseFloat(element.getAttribute(attribute) ?? '') || 0;
+
+    switch (element.tagName.toLowerCase()) {
+      case 'rect': {
+        const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(
+          getLength
+        );
+        if (width <= 0 || height <= 0) return '';
+        // A missing corner radius defaults to the other one
+        let rx = getLength('rx') || getLength('ry');
+        let ry = getLength('ry') || rx;
+        rx = Math.min(rx, width / 2);
+        ry = Math.min(ry, height / 2);
+        if (rx === 0 || ry === 0) {
+          operators.push(`${format([x, y, width, height])} re`);
+        } else {
+          moveTo(x + rx, y);
+          lineTo(x + width - rx, y);
+          curveTo(
+            x + width - rx + kappa * rx,
+            y,
+            x + width,
+            y + ry - kappa * ry,
+            x + width,
+            y + ry
+          );
+          lineTo(x + width, y + height - ry);
+          curveTo(
+            x + width,
+            y + height - ry + kappa * ry,
+            x + width - rx + kappa * rx,
+            y + height,
+            x + width - rx,
+            y + height
+          );
+          lineTo(x + rx, y + height);
+          curveTo(
+            x + rx - kappa * rx,
+            y + height,
+            x,
+            y + height - ry + kappa * ry,
+            x,
+            y + height - ry
+          );
+          lineTo(x, y + ry);
+          curveTo(x, y + ry - kappa * ry, x + rx - kappa * rx, y, x + rx, y);
+          operators.push('h');
+        }
+        break;
+      }
+      case 'circle':
+        ellipse(
+          getLength('cx'),
+          getLength('cy'),
+          getLength('r'),
+          getLength('r')
+        );
+        break;
+      case 'ellipse':
+        ellipse(
+          getLength('cx'),
+          getLength('cy'),
+          getLength('rx'),
+          getLength('ry')
+        );
+        break;
+      case 'line':
+        moveTo(getLength('x1'), getLength('y1'));
+        lineTo(getLength('x2'), getLength('y2'));
+        break;
+      case 'polyline':
+      case 'polygon': {
+        const points = (element.getAttribute('points') ?? '')
+          .trim()
+          .split(/[\s,]+/)
+          .map(Number);
+        for (let i = 0; i + 1 < points.length; i += 2) {
+          if (i === 0) moveTo(points[i], points[i + 1]);
+          else lineTo(points[i], points[i + 1]);
+        }
+        if (element.tagName.toLowerCase() === 'polygon') operators.push('h');
+        break;
+      }
+      case 'path':
+        BiowcPathwaygraph._convertSvgPathData(
+          element.getAttribute('d') ?? '',
+          moveTo,
+          lineTo,
+          curveTo,
+          () => operators.push('h')
+        );
+        break;
+      default:
+        break;
+    }
+    return operators.join('\n');
+  }
+
+  private static _convertSvgPathData(
+    pathData: string,
+    moveTo: (x: number, y: number) => void,
+    lineTo: (x: number, y: number) => void,
+    curveTo: (...points: number[]) => void,
+    closePath: () => void
+  ) {
+    // Quadratic curves and arcs are converted into cubic curves, because PDF only has those
+    const tokens =
+      pathData.match(
+        /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g
+      ) ?? [];
+    let [x, y, startX, startY] = [0, 0, 0, 0];
+    // The last control point, for the reflection in smooth curves
+    let [controlX, controlY] = [0, 0];
+    let command = '';
+    let previousCommand = '';
+    let i = 0;
+    const next = () => {
+      i += 1;
+      return Number(tokens[i - 1]);
+    };
+    while (i < tokens.length) {
+      const tokenIndex = i;
+      if (/[a-zA-Z]/.test(tokens[i])) {
+        command = tokens[i];
+        i += 1;
+      } else if (command === 'M') {
+        // Coordinates after a moveto are implicit lineto commands
+        command = 'L';
+      } else if (command === 'm') {
+        command = 'l';
+      }
+      const isRelative = command === command.toLowerCase();
+      const [offsetX, offsetY] = isRelative ? [x, y] : [0, 0];
+      const upperCommand = command.toUpperCase();
+      const isSmoothContinuation =
+        (upperCommand === 'S' && /[CcSs]/.test(previousCommand)) ||
+        (upperCommand === 'T' && /[QqTt]/.test(previousCommand));
+      const [reflectedX, reflectedY] = isSmoothContinuation
+        ? [2 * x - controlX, 2 * y - controlY]
+        : [x, y];
+      switch (upperCommand) {
+        case 'M':
+          x = next() + offsetX;
+          y = next() + offsetY;
+          [startX, startY] = [x, y];
+          moveTo(x, y);
+          break;
+        case 'L':
+          x = next() + offsetX;
+          y = next() + offsetY;
+          lineTo(x, y);
+          break;
+        case 'H':
+          x = next() + offsetX;
+          lineTo(x, y);
+          break;
+        case 'V':
+          y = next() + offsetY;
+          lineTo(x, y);
+          break;
+        case 'C':
+        case 'S': {
+          const [x1, y1] =
+            upperCommand === 'C'
+              ? [next() + offsetX, next() + offsetY]
+              : [reflectedX, reflectedY];
+          const [x2, y2] = [next() + offsetX, next() + offsetY];
+          [x, y] = [next() + offsetX, next() + offsetY];
+          curveTo(x1, y1, x2, y2, x, y);
+          [controlX, controlY] = [x2, y2];
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          const [qx, qy] =
+            upperCommand === 'Q'
+              ? [next() + offsetX, next() + offsetY]
+              : [reflectedX, reflectedY];
+          const [endX, endY] = [next() + offsetX, next() + offsetY];
+          curveTo(
+            x + (2 / 3) * (qx - x),
+            y + (2 / 3) * (qy - y),
+            endX + (2 / 3) * (qx - endX),
+            endY + (2 / 3) * (qy - endY),
+            endX,
+            endY
+          );
+          [x, y, controlX, controlY] = [endX, endY, qx, qy];
+          break;
+        }
+        case 'A': {
+          const [rx, ry, rotation, largeArc, sweep] = [
+            next(),
+            next(),
+            next(),
+            next(),
+            next(),
+          ];
+          const [endX, endY] = [next() + offsetX, next() + offsetY];
+          BiowcPathwaygraph._convertSvgArc(
+            [x, y, endX, endY],
+            [rx, ry, rotation],
+            !!largeArc,
+            !!sweep
+          ).forEach(points => curveTo(...points));
+          [x, y] = [endX, endY];
+          break;
+        }
+        case 'Z':
+          // A closepath takes no coordinates, so it is only executed where the command itself stands
+          if (i > tokenIndex) {
+            [x, y] = [startX, startY];
+            closePath();
+          }
+          break;
+        default:
+          break;
+      }
+      // Skip anything that cannot be parsed, e.g. coordinates after a closepath
+      if (i === tokenIndex) i += 1;
+      previousCommand = command;
+    }
+  }
+
+  private static _convertSvgArc(
+    [x1, y1, x2, y2]: number[],
+    [radiusX, radiusY, rotationDegrees]: number[],
+    largeArc: boolean,
+    sweep: boolean
+  ) {
+    // Endpoint to center parameterization, see appendix B.2.4 of the SVG 2 specification
+    if (radiusX === 0 || radiusY === 0 || (x1 === x2 && y1 === y2)) {
+      return [[x1, y1, x2, y2, x2, y2]];
+    }
+    const rotation = (rotationDegrees * Math.PI) / 180;
+    const [cos, sin] = [Math.cos(rotation), Math.sin(rotation)];
+    const [dx, dy] = [(x1 - x2) / 2, (y1 - y2) / 2];
+    const [x1Prime, y1Prime] = [cos * dx + sin * dy, -sin * dx + cos * dy];
+    let [rx, ry] = [Math.abs(radiusX), Math.abs(radiusY)];
+    // Radii that are too small are scaled up
+    const radiiCheck = x1Prime ** 2 / rx ** 2 + y1Prime ** 2 / ry ** 2;
+    if (radiiCheck > 1) {
+      rx *= Math.sqrt(radiiCheck);
+      ry *= Math.sqrt(radiiCheck);
+    }
+    const centerFactor =
+      (largeArc === sweep ? -1 : 1) *
+      Math.sqrt(
+        Math.max(
+          0,
+          (rx ** 2 * ry ** 2 -
+            rx ** 2 * y1Prime ** 2 -
+            ry ** 2 * x1Prime ** 2) /
+            (rx ** 2 * y1Prime ** 2 + ry ** 2 * x1Prime ** 2)
+        )
+      );
+    const [cxPrime, cyPrime] = [
+      (centerFactor * rx * y1Prime) / ry,
+      (-centerFactor * ry * x1Prime) / rx,
+    ];
+    const [cx, cy] = [
+      cos * cxPrime - sin * cyPrime + (x1 + x2) / 2,
+      sin * cxPrime + cos * cyPrime + (y1 + y2) / 2,
+    ];
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+      Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const startAngle = angle(
+      1,
+      0,
+      (x1Prime - cxPrime) / rx,
+      (y1Prime - cyPrime) / ry
+    );
+    let deltaAngle = angle(
+      (x1Prime - cxPrime) / rx,
+      (y1Prime - cyPrime) / ry,
+      (-x1Prime - cxPrime) / rx,
+      (-y1Prime - cyPrime) / ry
+    );
+    if (!sweep && deltaAngle > 0) deltaAngle -= 2 * Math.PI;
+    if (sweep && deltaAngle < 0) deltaAngle += 2 * Math.PI;
+
+    // Split the arc into segments of at most a quarter turn, each approximated by one cubic curve
+    const nSegments = Math.ceil(Math.abs(deltaAngle) / (Math.PI / 2));
+    const segmentAngle = deltaAngle / nSegments;
+    const handleLength = (4 / 3) * Math.tan(segmentAngle / 4);
+    const pointOnArc = (theta: number) => [
+      cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+      cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+    ];
+    const derivativeOnArc = (theta: number) => [
+      -rx * Math.sin(theta) * cos - ry * Math.cos(theta) * sin,
+      -rx * Math.sin(theta) * sin + ry * Math.cos(theta) * cos,
+    ];
+    return [...Array(nSegments).keys()].map(segment => {
+      const theta1 = startAngle + segment * segmentAngle;
+      const theta2 = theta1 + segmentAngle;
+      const [startX, startY] = pointOnArc(theta1);
+      const [endX, endY] = pointOnArc(theta2);
+      const [startDX, startDY] = derivativeOnArc(theta1);
+      const [endDX, endDY] = derivativeOnArc(theta2);
+      return [
+        startX + handleLength * startDX,
+        startY + handleLength * startDY,
+        endX - handleLength * endDX,
+        endY - handleLength * endDY,
+        endX,
+        endY,
+      ];
+    });
+  }
+
+  private static _formatPdfNumbers(numbers: number[]) {
+    // PDF does not accept exponential notation, so round to a precision that is well below a printed dot
+    return numbers.map(number => String(Number(number.toFixed(3)))).join(' ');
+  }
+
+  private static _formatPdfString(text: string) {
+    // Characters beyond Latin-1 cannot be represented with the standard fonts, everything else is escaped to stay ASCII
+    return `(${Array.from(text)
+      .map(character => {
+        const code = character.charCodeAt(0);
+        if (character.length > 1 || code > 255 || code < 32) return '?';
+        if ('()\\'.includes(character)) return `\\${character}`;
+        if (code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+        return character;
+      })
+      .join('')})`;
+  }
+
+  private _getPeptideTableRows(options: Required<PeptideTableExportOptions>) {
+    const ptmNodes = (this.d3Nodes || [])
+      .filter(node => node.type === 'ptm')
+      .map(node => <PTMNodeD3>node)
+      .filter(ptmNode => {
+        if (options.scope === 'selected') {
+          return BiowcPathwaygraph._isPTMNodeSelected(ptmNode);
+        }
+        if (options.scope === 'visible') {
+          return this._isPTMNodeShown(ptmNode);
+        }
+        return true;
+      });
+
+    // With 'all', the columns are the details of the exported peptides, in the order they first appear in
+    const columns =
+      options.columns === 'all'
+        ? [
+            ...new Set(
+              ptmNodes.flatMap(ptmNode =>
+                Object.keys(ptmNode.detailsInternal || {})
+              )
+            ),
+          ]
+        : options.columns;
+    const header = columns.map(
+      column => options.columnHeaders[column] ?? column
+    );
+    if (options.includeRegulation) header.push('Regulation');
+    if (options.includeMappedNode)
+      header.push('Pathway Node ID', 'Pathway Node');
+
+    const rows = ptmNodes.map(ptmNode => {
+      const row: (string | number | undefined)[] = columns.map(
+        column => ptmNode.detailsInternal?.[column]
+      );
+      if (options.includeRegulation) row.push(ptmNode.regulation);
+      if (options.includeMappedNode) {
+        const { geneProteinNode } = ptmNode;
+        row.push(
+          ptmNode.geneProteinNodeId,
+          geneProteinNode?.currentDisplayedLabel ||
+            geneProteinNode?.defaultName ||
+            geneProteinNode?.geneNames?.[0]
+        );
+      }
+      return row;
+    });
+    return [header, ...rows];
+  }
+
+  public exportPeptideTable(options: PeptideTableExportOptions = {}) {
+    // Returns the peptides that are mapped in the currently displayed diagram as delimited text
+    const exportOptions = {
+      ...BiowcPathwaygraph.defaultPeptideTableExportOptions,
+      ...options,
+    };
+    const { delimiter } = exportOptions;
+    // Values are only quoted if they have to be, and quotes inside them are doubled
+    const formatValue = (value: string | number | undefined) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return text.includes(delimiter) || /["\r\n]/.test(text)
+        ? `"${text.replaceAll('"', '""')}"`
+        : text;
+    };
+    return this._getPeptideTableRows(exportOptions)
+      .map(row => row.map(formatValue).join(delimiter))
+      .join('\r\n');
+  }
+
+  public toPeptideTableBlob(options: PeptideTableExportOptions = {}) {
+    const delimiter =
+      options.delimiter ??
+      BiowcPathwaygraph.defaultPeptideTableExportOptions.delimiter;
+    return new Blob([this.exportPeptideTable(options)], {
+      type: delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv',
+    });
+  }
+
+  public downloadPeptidesCSV(options: PeptideTableExportOptions = {}) {
+    // Provides a file that contains the peptides that are mapped in the currently displayed diagram
+    const blob = this.toPeptideTableBlob(options);
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.download =
+      blob.type === 'text/csv' ? 'mappedPeptides.csv' : 'mappedPeptides.tsv';
+    a.href = url;
+    a.click();
+  }
+
+  public exportSkeleton(name: string, title: string) {
+    return JSON.stringify(
+      {
+        pathway: { name, title },
+        nodes: (<GeneProteinNodeD3[]>this.d3Nodes)
+          ?.filter(d3node => !d3node.nodeId.includes('ptm'))
+          .map(d3node => ({
+            id: d3node.nodeId,
+            geneNames: d3node.geneNames,
+            type: d3node.type,
+            x: Number(d3node.x.toFixed(1)),
+            y: Number(d3node.y.toFixed(1)),
+            uniprotAccs: d3node.uniprotAccs,
+            label: d3node.label,
+            groupId: d3node.groupId,
+          })),
+        links: this.d3Links
+          ?.filter(d3link => !d3link.linkId.includes('ptm'))
+          .map(d3link => {
+            const { linkId, sourceId, targetId, types, label } = d3link;
+            return { id: linkId, sourceId, targetId, types, label };
+          }),
+      },
+      null,
+      0
+    );
+  }
+
+  private static _appendXmlElement(
+    parent: Element,
+    localName: string,
+    attributes: { [key: string]: string | number }
+  ) {
+    // Creates a child element in the namespace of its parent
+    const element = parent.ownerDocument.createElementNS(
+      parent.namespaceURI,
+      localName
+    );
+    Object.entries(attributes).forEach(([key, value]) =>
+      element.setAttribute(key, String(value))
+    );
+    parent.appendChild(element);
+    return element;
+  }
+
+  private static _getExportBoundingBox(d3node: PathwayGraphNodeD3): {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  } {
+    // Groups have no size of their own, so their bounding box is spanned by their members
+    const memberBoxes =
+      d3node.type === 'group'
+        ? ((<GroupNodeD3>d3node).componentNodes || []).map(
+            BiowcPathwaygraph._getExportBoundingBox
+          )
+        : [];
+    if (memberBoxes.length > 0) {
+      const minX = Math.min(...memberBoxes.map(box => box.x));
+      const minY = Math.min(...memberBoxes.map(box => box.y));
+      return {
+        x: minX,
+        y: minY,
+        w: Math.max(...memberBoxes.map(box => box.x + box.w)) - minX,
+        h: Math.max(...memberBoxes.map(box => box.y + box.h)) - minY,
+      };
+    }
+    return {
+      x: (d3node.x ?? 0) + (d3node.rectX ?? -NODE_HEIGHT),
+      y: (d3node.y ?? 0) - NODE_HEIGHT,
+      w: d3node.rectWidth ?? NODE_HEIGHT * 2,
+      h: NODE_HEIGHT * 2,
+    };
+  }
+
+  public exportSbgn() {
+    // Writes the skeleton at its current positions as an SBGN-ML Activity Flow map.
+    // Activity Flow is the SBGN language whose arcs (influences between entities) correspond to the links of the graph.
+    // Links that start or end on other links cannot be expressed in Activity Flow and are left out.
+    const sbgnNamespace = 'http://sbgn.org/libsbgn/0.3';
+    const sbgnDocument = document.implementation.createDocument(
+      sbgnNamespace,
+      'sbgn',
+      null
+    );
+    const createElement = BiowcPathwaygraph._appendXmlElement;
+
+    const mapElement = createElement(sbgnDocument.documentElement, 'map', {
+      id: 'map',
+      language: 'activity flow',
+    });
+
+    const skeletonNodes = (<GeneProteinNodeD3[]>(this.d3Nodes ?? [])).filter(
+      d3node => !d3node.nodeId.includes('ptm')
+    );
+    const unitsOfInformation: { [key: string]: string } = {
+      gene_protein: 'macromolecule',
+      compound: 'simple chemical',
+      group: 'complex',
+    };
+    for (const d3node of skeletonNodes) {
+      const bbox = BiowcPathwaygraph._getExportBoundingBox(d3node);
+
+      const glyph = createElement(mapElement, 'glyph', {
+        id: d3node.nodeId,
+        class: d3node.type === 'pathway' ? 'submap' : 'biological activity',
+      });
+      createElement(glyph, 'label', {
+        text:
+          d3node.currentDisplayedLabel ||
+          d3node.defaultName ||
+          d3node.label ||
+          '',
+      });
+      createElement(glyph, 'bbox', {
+        x: bbox.x.toFixed(1),
+        y: bbox.y.toFixed(1),
+        w: bbox.w.toFixed(1),
+        h: bbox.h.toFixed(1),
+      });
+      if (Object.hasOwn(unitsOfInformation, d3node.type)) {
+        const unitOfInformation = createElement(glyph, 'glyph', {
+          id: `${d3node.nodeId}-unit-of-information`,
+          class: 'unit of information',
+        });
+        createElement(unitOfInformation, 'label', {
+          text: unitsOfInformation[d3node.type],
+        });
+        createElement(unitOfInformation, 'bbox', {
+          x: bbox.x.toFixed(1),
+          y: (bbox.y - 5).toFixed(1),
+          w: 20,
+          h: 10,
+        });
+      }
+    }
+
+    const skeletonNodeIds = new Set(skeletonNodes.map(d3node => d3node.nodeId));
+    this.d3Links
+      ?.filter(
+        d3link =>
+          !d3link.linkId.includes('ptm') &&
+          skeletonNodeIds.has(d3link.sourceId) &&
+          skeletonNodeIds.has(d3link.targetId)
+      )
+      .forEach(d3link => {
+        let arcClass = 'unknown influence';
+        if (d3link.types.includes('activation'))
+          arcClass = 'positive influence';
+        if (d3link.types.includes('inhibition'))
+          arcClass = 'negative influence';
+        const arc = createElement(mapElement, 'arc', {
+          id: d3link.linkId,
+          class: arcClass,
+          source: d3link.sourceId,
+          target: d3link.targetId,
+        });
+        createElement(arc, 'start', {
+          x: (d3link.sourceX ?? d3link.source.x ?? 0).toFixed(1),
+          y: (d3link.sourceY ?? d3link.source.y ?? 0).toFixed(1),
+        });
+        createElement(arc, 'end', {
+          x: (d3link.targetX ?? d3link.target.x ?? 0).toFixed(1),
+          y: (d3link.targetY ?? d3link.target.y ?? 0).toFixed(1),
+        });
+      });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(
+      sbgnDocument
+    )}`;
+  }
+
+  public exportGpml(title: string) {
+    // Writes the skeleton at its current positions as a GPML 2021 document for WikiPathways and PathVisio.
+    // Links that start or end on other links are attached to an anchor in the middle of that link.
+    const gpmlDocument = document.implementation.createDocument(
+      'http://pathvisio.org/GPML/2021',
+      'Pathway',
+      null
+    );
+    const createElement = BiowcPathwaygraph._appendXmlElement;
+    const pathwayElement = gpmlDocument.documentElement;
+    pathwayElement.setAttribute('title', title);
+
+    const skeletonNodes = (<GeneProteinNodeD3[]>(this.d3Nodes ?? [])).filter(
+      d3node => !d3node.nodeId.includes('ptm')
+    );
+    const skeletonLinks = (this.d3Links || []).filter(
+      d3link => !d3link.linkId.includes('ptm')
+    );
+    const boundingBoxes = Object.fromEntries(
+      skeletonNodes.map(d3node => [
+        d3node.nodeId,
+        BiowcPathwaygraph._getExportBoundingBox(d3node),
+      ])
+    );
+    const boxes = Object.values(boundingBoxes);
+    createElement(pathwayElement, 'Graphics', {
+      boardWidth: (
+        Math.max(0, ...boxes.map(box => box.x + box.w)) + 50
+      ).toFixed(1),
+      boardHeight: (
+        Math.max(0, ...boxes.map(box => box.y + box.h)) + 50
+      ).toFixed(1),
+    });
+
+    const dataNodesElement = createElement(pathwayElement, 'DataNodes', {});
+    skeletonNodes
+      .filter(d3node =>
+        Object.hasOwn(BiowcPathwaygraph.gpmlExportDataNodeTypes, d3node.type)
+      )
+      .forEach(d3node => {
+        const dataNode = createElement(dataNodesElement, 'DataNode', {
+          elementId: d3node.nodeId,
+          textLabel:
+            d3node.currentDisplayedLabel ||
+            d3node.defaultName ||
+            d3node.label ||
+            '',
+          type: BiowcPathwaygraph.gpmlExportDataNodeTypes[d3node.type],
+        });
+        if (d3node.groupId) dataNode.setAttribute('groupRef', d3node.groupId);
+        // Only one identifier fits into the Xref, Uniprot accessions are preferred over alternative gene names
+        const alternativeGeneName = d3node.geneNames?.find(
+          geneName => geneName !== dataNode.getAttribute('textLabel')
+        );
+        if (d3node.uniprotAccs?.length > 0) {
+          createElement(dataNode, 'Xref', {
+            identifier: d3node.uniprotAccs[0],
+            dataSource: 'Uniprot-TrEMBL',
+          });
+        } else if (alternativeGeneName) {
+          createElement(dataNode, 'Xref', {
+            identifier: alternativeGeneName,
+            dataSource: 'HGNC',
+          });
+        }
+        const bbox = boundingBoxes[d3node.nodeId];
+        createElement(dataNode, 'Graphics', {
+          centerX: d3node.x.toFixed(1),
+          centerY: d3node.y.toFixed(1),
+          width: bbox.w.toFixed(1),
+          height: bbox.h.toFixed(1),
+        });
+      });
+
+    // The points where links start and end, links that end on other links end in the middle of them
+    const linkIdToLink = Object.fromEntries(
+      skeletonLinks.map(d3link => [d3link.linkId, d3link])
+    );
+    const getPoint = (elementId: string, depth = 0): [number, number] => {
+      if (Object.hasOwn(linkIdToLink, elementId) && depth < 10) {
+        const [sourceX, sourceY] = getPoint(
+          linkIdToLink[elementId].sourceId,
+          depth + 1
+        );
+        const [targetX, targetY] = getPoint(
+          linkIdToLink[elementId].targetId,
+          depth + 1
+        );
+        return [(sourceX + targetX) / 2, (sourceY + targetY) / 2];
+      }
+      const d3node = skeletonNodes.find(node => node.nodeId === elementId);
+      return [d3node?.x ?? 0, d3node?.y ?? 0];
+    };
+    const anchoredLinkIds = new Set(
+      skeletonLinks
+        .flatMap(d3link => [d3link.sourceId, d3link.targetId])
+        .filter(elementId => Object.hasOwn(linkIdToLink, elementId))
+    );
+    const getElementRef = (elementId: string) =>
+      anchoredLinkIds.has(elementId) ? `${elementId}-anchor` : elementId;
+
+    const interactionsElement = createElement(
+      pathwayElement,
+      'Interactions',
+      {}
+    );
+    const labelledLinks: PathwayGraphLinkD3[] = [];
+    skeletonLinks.forEach(d3link => {
+      const interaction = createElement(interactionsElement, 'Interaction', {
+        elementId: d3link.linkId,
+      });
+      const waypoints = createElement(interaction, 'Waypoints', {});
+      const [sourceX, sourceY] = getPoint(d3link.sourceId);
+      const [targetX, targetY] = getPoint(d3link.targetId);
+      createElement(waypoints, 'Point', {
+        elementId: `${d3link.linkId}-source`,
+        x: sourceX.toFixed(1),
+        y: sourceY.toFixed(1),
+        elementRef: getElementRef(d3link.sourceId),
+      });
+      const targetPoint = createElement(waypoints, 'Point', {
+        elementId: `${d3link.linkId}-target`,
+        x: targetX.toFixed(1),
+        y: targetY.toFixed(1),
+        elementRef: getElementRef(d3link.targetId),
+      });
+      const linkType = d3link.types.find(type =>
+        Object.hasOwn(BiowcPathwaygraph.gpmlExportArrowHeads, type)
+      );
+      targetPoint.setAttribute(
+        'arrowHead',
+        linkType ? BiowcPathwaygraph.gpmlExportArrowHeads[linkType] : 'Directed'
+      );
+      if (anchoredLinkIds.has(d3link.linkId)) {
+        createElement(waypoints, 'Anchor', {
+          elementId: `${d3link.linkId}-anchor`,
+          position: 0.5,
+          shape: 'None',
+        });
+      }
+      createElement(interaction, 'Graphics', {
+        lineColor: '000000',
+        lineWidth: 1,
+        lineStyle: d3link.types.includes('indirect effect')
+          ? 'Dashed'
+          : 'Solid',
+      });
+      if (d3link.label) labelledLinks.push(d3link);
+    });
+
+    // Interactions have no text, so their labels are placed in the middle of them
+    if (labelledLinks.length > 0) {
+      const labelsElement = createElement(pathwayElement, 'Labels', {});
+      labelledLinks.forEach(d3link => {
+        const [x, y] = getPoint(d3link.linkId);
+        const label = createElement(labelsElement, 'Label', {
+          elementId: `${d3link.linkId}-label`,
+          textLabel: d3link.label!,
+        });
+        createElement(label, 'Graphics', {
+          centerX: x.toFixed(1),
+          centerY: y.toFixed(1),
+          width: Math.max(20, d3link.label!.length * 8),
+          height: 20,
+        });
+      });
+    }
+
+    const groupNodes = skeletonNodes.filter(d3node => d3node.type === 'group');
+    if (groupNodes.length > 0) {
+      const groupsElement = createElement(pathwayElement, 'Groups', {});
+      groupNodes.forEach(d3node => {
+        const group = createElement(groupsElement, 'Group', {
+          elementId: d3node.nodeId,
+          type: 'Complex',
+        });
+        const bbox = boundingBoxes[d3node.nodeId];
+        createElement(group, 'Graphics', {
+          centerX: (bbox.x + bbox.w / 2).toFixed(1),
+          centerY: (bbox.y + bbox.h / 2).toFixed(1),
+          width: bbox.w.toFixed(1),
+          height: bbox.h.toFixed(1),
+        });
+      });
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(
+      gpmlDocument
+    )}`;
+  }
+
+  // KGML names entries by their database ids, e.g. 'cpd:C00001' or 'up:P12345'. Groups are always named 'undefined'.
+  private static _getKgmlEntryName(d3node: GeneProteinNodeD3) {
+    if (d3node.type === 'group') return 'undefined';
+    const keggIds =
+      d3node.type === 'compound'
+        ? (<CompoundNodeD3>(<PathwayGraphNodeD3>d3node)).keggIds || []
+        : [];
+    if (keggIds.length > 0) {
+      return keggIds.map(keggId => `cpd:${keggId}`).join(' ');
+    }
+    if (d3node.uniprotAccs?.length > 0) {
+      return d3node.uniprotAccs.map(uniprotAcc => `up:${uniprotAcc}`).join(' ');
+    }
+    // The names are separated by spaces, so spaces within them are replaced
+    return d3node.geneNames?.length > 0
+      ? d3node.geneNames
+          .map(geneName => geneName.replace(/\s+/g, '_'))
+          .join(' ')
+      : d3node.nodeId;
+  }
+
+  public exportKgml(name: string, title: string) {
+    // Writes the skeleton at its current positions as a KEGG KGML document.
+    // KGML entries are numbered, so other node ids are replaced by consecutive numbers.
+    // Links that start or end on other links and labels that are no KGML modification cannot be expressed and are left out.
+    const kgmlDocument = document.implementation.createDocument(
+      null,
+      'pathway',
+      null
+    );
+    const createElement = BiowcPathwaygraph._appendXmlElement;
+    const pathwayElement = kgmlDocument.documentElement;
+    // Names look like 'path:hsa04010', with the organism code followed by the map number
+    const [, organism, number] = name.match(/([a-z]+)(\d+)$/) ?? [
+      '',
+      'ko',
+      '00000',
+    ];
+    pathwayElement.setAttribute('name', name);
+    pathwayElement.setAttribute('org', organism);
+    pathwayElement.setAttribute('number', number);
+    pathwayElement.setAttribute('title', title);
+
+    const skeletonNodes = (<GeneProteinNodeD3[]>(this.d3Nodes ?? [])).filter(
+      d3node =>
+        !d3node.nodeId.includes('ptm') &&
+        Object.hasOwn(BiowcPathwaygraph.kgmlExportEntryTypes, d3node.type)
+    );
+    const keepNodeIds = skeletonNodes.every(d3node =>
+      /^\d+$/.test(d3node.nodeId)
+    );
+    const nodeIdToEntryId = Object.fromEntries(
+      skeletonNodes.map((d3node, index) => [
+        d3node.nodeId,
+        keepNodeIds ? d3node.nodeId : String(index + 1),
+      ])
+    );
+
+    skeletonNodes.forEach(d3node => {
+      const entry = createElement(pathwayElement, 'entry', {
+        id: nodeIdToEntryId[d3node.nodeId],
+        name: BiowcPathwaygraph._getKgmlEntryName(d3node),
+        type: BiowcPathwaygraph.kgmlExportEntryTypes[d3node.type],
+      });
+      // KGML coordinates are the centers of the boxes
+      const bbox = BiowcPathwaygraph._getExportBoundingBox(d3node);
+      const graphics = createElement(entry, 'graphics', {
+        name:
+          d3node.type === 'gene_protein' && d3node.geneNames
+            ? d3node.geneNames.join(', ')
+            : d3node.label || '',
+        fgcolor: '#000000',
+        bgcolor: d3node.type === 'compound' ? '#FFFFFF' : '#BFFFBF',
+        type: d3node.type === 'compound' ? 'circle' : 'rectangle',
+        x: Math.round(bbox.x + bbox.w / 2),
+        y: Math.round(bbox.y + bbox.h / 2),
+        width: Math.round(bbox.w),
+        height: Math.round(bbox.h),
+      });
+      if (d3node.type === 'group') {
+        graphics.removeAttribute('name');
+        ((<GroupNodeD3>(<PathwayGraphNodeD3>d3node)).componentNodes || [])
+          .filter(componentNode =>
+            Object.hasOwn(nodeIdToEntryId, componentNode.nodeId)
+          )
+          .forEach(componentNode =>
+            createElement(entry, 'component', {
+              id: nodeIdToEntryId[componentNode.nodeId],
+            })
+          );
+      }
+    });
+
+    const nodeIdToType = Object.fromEntries(
+      skeletonNodes.map(d3node => [d3node.nodeId, d3node.type])
+    );
+    const kgmlSubtypeNames = Object.fromEntries(
+      Object.entries(BiowcPathwaygraph.kgmlSubtypeLabels).map(
+        ([subtypeName, label]) => [label, subtypeName]
+      )
+    );
+    (this.d3Links || [])
+      .filter(
+        d3link =>
+          !d3link.linkId.includes('ptm') &&
+          Object.hasOwn(nodeIdToEntryId, d3link.sourceId) &&
+          Object.hasOwn(nodeIdToEntryId, d3link.targetId)
+      )
+      .forEach(d3link => {
+        const endTypes = [
+          nodeIdToType[d3link.sourceId],
+          nodeIdToType[d3link.targetId],
+        ];
+        let relationType = 'PPrel';
+        if (endTypes.includes('compound')) relationType = 'PCrel';
+        if (endTypes.includes('pathway')) relationType = 'maplink';
+        const relation = createElement(pathwayElement, 'relation', {
+          entry1: nodeIdToEntryId[d3link.sourceId],
+          entry2: nodeIdToEntryId[d3link.targetId],
+          type: relationType,
+        });
+        d3link.types
+          .filter(type =>
+            Object.hasOwn(BiowcPathwaygraph.kgmlExportSubtypes, type)
+          )
+          .forEach(type =>
+            createElement(relation, 'subtype', {
+              name: type,
+              value: BiowcPathwaygraph.kgmlExportSubtypes[type],
+            })
+          );
+        (d3link.label || '')
+          .split(' ')
+          .filter(label => Object.hasOwn(kgmlSubtypeNames, label))
+          .forEach(label =>
+            createElement(relation, 'subtype', {
+              name: kgmlSubtypeNames[label],
+              value: label,
+            })
+          );
+      });
+
+    return `<?xml version="1.0"?>\n<!DOCTYPE pathway SYSTEM "https://www.kegg.jp/kegg/xml/KGML_v0.7.2_.dtd">\n${new XMLSerializer().serializeToString(
+      kgmlDocument
+    )}`;
+  }
+
+  private _getAnnotatedGraph() {
+    // Collects the nodes and links of the current graph, including PTMs and their summaries,
+    // together with the data they are annotated with, for the network exporters.
+    // Links that start or end on other links cannot be represented in network formats and are left out.
+    const d3Nodes = this.d3Nodes || [];
+    const nodeIds = new Set(d3Nodes.map(d3node => d3node.nodeId));
+
+    const nodes: AnnotatedGraphNode[] = d3Nodes.map(d3node => {
+      const geneProteinNode = <GeneProteinNodeD3>d3node;
+      const ptmNode = <PTMNodeD3>d3node;
+      // The details come first, so they cannot override the attributes that are computed here
+      const attributes: { [key: string]: string | number } = {
+        ...(geneProteinNode.detailsInternal || {}),
+      };
+      attributes.name =
+        d3node.currentDisplayedLabel ||
+        geneProteinNode.defaultName ||
+        geneProteinNode.label ||
+        d3node.nodeId;
+      attributes.type = d3node.type;
+      const regulation = BiowcPathwaygraph._computeRegulationClass(d3node);
+      if (regulation) attributes.regulation = regulation;
+      (['nUp', 'nDown', 'nNot'] as const).forEach(key => {
+        if (geneProteinNode[key] !== undefined) {
+          attributes[key] = geneProteinNode[key]!;
+        }
+      });
+      if (geneProteinNode.detailsInternal) {
+        const foldChange = BiowcPathwaygraph._getNodeFoldChange(d3node);
+        if (Number.isFinite(foldChange)) attributes.foldChange = foldChange;
+      }
+      const perturbation = this._computeIsPerturbed(d3node);
+      if (perturbation) {
+        attributes.perturbation = perturbation.replace('circle-', '');
+      }
+      if (geneProteinNode.kinaseActivity) {
+        attributes.kinaseActivity = geneProteinNode.kinaseActivity.score;
+        attributes.kinaseActivityPValue = geneProteinNode.kinaseActivity.pValue;
+      }
+      if (geneProteinNode.geneNames?.length > 0) {
+        attributes.geneNames = geneProteinNode.geneNames.join(', ');
+      }
+      if (geneProteinNode.uniprotAccs?.length > 0) {
+        attributes.uniprotAccs = geneProteinNode.uniprotAccs.join(', ');
+      }
+      if (ptmNode.geneProteinNodeId) {
+        attributes.geneProteinNodeId = ptmNode.geneProteinNodeId;
+      }
+      if (ptmNode.summaryNodeId)
+        attributes.summaryNodeId = ptmNode.summaryNodeId;
+
+      // Groups have no position of their own, they are placed in the middle of their members
+      const bbox = BiowcPathwaygraph._getExportBoundingBox(d3node);
+      const isGroup = d3node.type === 'group';
+      return {
+        id: d3node.nodeId,
+        x: Number((isGroup ? bbox.x + bbox.w / 2 : d3node.x ?? 0).toFixed(1)),
+        y: Number((isGroup ? bbox.y + bbox.h / 2 : d3node.y ?? 0).toFixed(1)),
+        parent:
+          geneProteinNode.groupId && nodeIds.has(geneProteinNode.groupId)
+            ? geneProteinNode.groupId
+            : undefined,
+        attributes,
+      };
+    });
+
+    const links: AnnotatedGraphLink[] = (this.d3Links || [])
+      .filter(
+        d3link =>
+          nodeIds.has(d3link.sourceId) &&
+          nodeIds.has(d3link.targetId) &&
+          (!d3link.types.includes('kinaseSubstrateLink') ||
+            this._isKinaseSubstrateLinkIncluded(d3link))
+      )
+      .map(d3link => {
+        const attributes: { [key: string]: string | number } = {
+          interaction: d3link.types.join(', '),
+        };
+        if (d3link.label) attributes.label = d3link.label;
+        if (d3link.sources) attributes.sources = d3link.sources.join(', ');
+        if (d3link.score !== undefined) attributes.score = d3link.score;
+        return {
+          id: d3link.linkId,
+          source: d3link.sourceId,
+          target: d3link.targetId,
+          attributes,
+        };
+      });
+
+    return { nodes, links };
+  }
+
+  private static _getAttributeTypes(
+    elements: { attributes: { [key: string]: string | number } }[]
+  ) {
+    // An attribute is numeric only if it is numeric for all elements that have it
+    const attributeTypes: { [key: string]: 'string' | 'double' } = {};
+    elements.forEach(element =>
+      Object.entries(element.attributes).forEach(([key, value]) => {
+        if (typeof value !== 'number') attributeTypes[key] = 'string';
+        else if (!Object.hasOwn(attributeTypes, key)) {
+          attributeTypes[key] = 'double';
+        }
+      })
+    );
+    return attributeTypes;
+  }
+
+  private static _convertAttributes(
+    attributes: { [key: string]: string | number },
+    attributeTypes: { [key: string]: 'string' | 'double' }
+  ) {
+    // Strict formats require all values of an attribute to have the declared type
+    return Object.fromEntries(
+      Object.entries(attributes).map(([key, value]) => [
+        key,
+        attributeTypes[key] === 'string' ? String(value) : value,
+      ])
+    );
+  }
+
+  public exportCytoscapeJs() {
+    // Writes the graph with its data in the JSON format of Cytoscape.js, which Cytoscape Desktop can import as well.
+    // Group members become children of compound nodes.
+    const { nodes, links } = this._getAnnotatedGraph();
+    return JSON.stringify({
+      format_version: '1.0',
+      generated_by: 'biowc-pathwaygraph',
+      target_cytoscapejs_version: '~3.0',
+      elements: {
+        nodes: nodes.map(node => ({
+          data: {
+            ...node.attributes,
+            id: node.id,
+            ...(node.parent ? { parent: node.parent } : {}),
+          },
+          position: { x: node.x, y: node.y },
+        })),
+        edges: links.map(link => ({
+          data: {
+            ...link.attributes,
+            id: link.id,
+            source: link.source,
+            target: link.target,
+          },
+        })),
+      },
+    });
+  }
+
+  public exportCx2() {
+    // Writes the graph with its data in the CX2 format of Cytoscape and NDEx.
+    // CX2 requires numeric ids, so the ids of the graph are kept in the 'nodeId' and 'linkId' attributes.
+    const { nodes, links } = this._getAnnotatedGraph();
+    const cx2Nodes = nodes.map(node => ({
+      ...node,
+      attributes: {
+        ...node.attributes,
+        nodeId: node.id,
+        ...(node.parent ? { group: node.parent } : {}),
+      },
+    }));
+    const cx2Links = links.map(link => ({
+      ...link,
+      attributes: { ...link.attributes, linkId: link.id },
+    }));
+    const nodeAttributeTypes = BiowcPathwaygraph._getAttributeTypes(cx2Nodes);
+    const linkAttributeTypes = BiowcPathwaygraph._getAttributeTypes(cx2Links);
+    const nodeIdToIndex = Object.fromEntries(
+      nodes.map((node, index) => [node.id, index])
+    );
+
+    return JSON.stringify([
+      { CXVersion: '2.0', hasFragments: false },
+      {
+        metaData: [
+          { name: 'attributeDeclarations', elementCount: 1 },
+          { name: 'nodes', elementCount: cx2Nodes.length },
+          { name: 'edges', elementCount: cx2Links.length },
+        ],
+      },
+      {
+        attributeDeclarations: [
+          {
+            nodes: Object.fromEntries(
+              Object.entries(nodeAttributeTypes).map(([key, type]) => [
+                key,
+                { d: type },
+              ])
+            ),
+            edges: Object.fromEntries(
+              Object.entries(linkAttributeTypes).map(([key, type]) => [
+                key,
+                { d: type },
+              ])
+            ),
+          },
+        ],
+      },
+      {
+        nodes: cx2Nodes.map((node, index) => ({
+          id: index,
+          x: node.x,
+          y: node.y,
+          v: BiowcPathwaygraph._convertAttributes(
+            node.attributes,
+            nodeAttributeTypes
+          ),
+        })),
+      },
+      {
+        edges: cx2Links.map((link, index) => ({
+          id: index,
+          s: nodeIdToIndex[link.source],
+          t: nodeIdToIndex[link.target],
+          v: BiowcPathwaygraph._convertAttributes(
+            link.attributes,
+            linkAttributeTypes
+          ),
+        })),
+      },
+      { status: [{ error: '', success: true }] },
+    ]);
+  }
+
+  public exportGraphml() {
+    // Writes the graph with its data as GraphML. The positions are stored as the node attributes 'x' and 'y'.
+    const { nodes, links } = this._getAnnotatedGraph();
+    const graphmlNodes = nodes.map(node => ({
+      ...node,
+      attributes: {
+        ...node.attributes,
+        x: node.x,
+        y: node.y,
+        ...(node.parent ? { group: node.parent } : {}),
+      },
+    }));
+    const nodeAttributeTypes =
+      BiowcPathwaygraph._getAttributeTypes(graphmlNodes);
+    const linkAttributeTypes = BiowcPathwaygraph._getAttributeTypes(links);
+
+    const graphmlDocument = document.implementation.createDocument(
+      'http://graphml.graphdrawing.org/xmlns',
+      'graphml',
+      null
+    );
+    const createElement = BiowcPathwaygraph._appendXmlElement;
+    const graphmlElement = graphmlDocument.documentElement;
+
+    // Attribute names can contain any character, so the keys are numbered instead
+    const declareKeys = (
+      attributeTypes: { [key: string]: 'string' | 'double' },
+      domain: 'node' | 'edge'
+    ) =>
+      Object.fromEntries(
+        Object.entries(attributeTypes).map(([attributeName, type], index) => {
+          const keyId = `${domain}${index}`;
+          createElement(graphmlElement, 'key', {
+            id: keyId,
+            for: domain,
+            'attr.name': attributeName,
+            'attr.type': type,
+          });
+          return [attributeName, keyId];
+        })
+      );
+    const nodeKeys = declareKeys(nodeAttributeTypes, 'node');
+    const linkKeys = declareKeys(linkAttributeTypes, 'edge');
+
+    const appendData = (
+      element: Element,
+      attributes: { [key: string]: string | number },
+      keys: { [key: string]: string }
+    ) =>
+      Object.entries(attributes).forEach(([attributeName, value]) => {
+        createElement(element, 'data', {
+          key: keys[attributeName],
+        }).textContent = String(value);
+      });
+
+    const graphElement = createElement(graphmlElement, 'graph', {
+      id: 'pathwaygraph',
+      edgedefault: 'directed',
+    });
+    graphmlNodes.forEach(node =>
+      appendData(
+        createElement(graphElement, 'node', { id: node.id }),
+        node.attributes,
+        nodeKeys
+      )
+    );
+    links.forEach(link =>
+      appendData(
+        createElement(graphElement, 'edge', {
+          id: link.id,
+          source: link.source,
+          target: link.target,
+        }),
+        link.attributes,
+        linkKeys
+      )
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(
+      graphmlDocument
+    )}`;
+  }
+
+  public importKgml(kgml: string) {
+    // Replaces the current skeleton by the pathway described in a KEGG KGML document
+    this.graphdataSkeleton = BiowcPathwaygraph._parseKgml(kgml);
+  }
+
+  private static _parseXml(xml: string, rootElementName: string) {
+    const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+    if (
+      xmlDocument.getElementsByTagName('parsererror').length > 0 ||
+      xmlDocument.documentElement.localName !== rootElementName
+    ) {
+      throw new Error(
+        `Could not parse input, expected an XML document with root element '${rootElementName}'.`
+      );
+    }
+    return xmlDocument;
+  }
+
+  private static _parseKgml(kgml: string): {
+    nodes: PathwayGraphNode[];
+    links: PathwayGraphLinkInput[];
+  } {
+    const kgmlDocument = BiowcPathwaygraph._parseXml(kgml, 'pathway');
+
+    const nodes: PathwayGraphNode[] = [];
+    const links: PathwayGraphLinkInput[] = [];
+    const nodeIds = new Set<string>();
+
+    for (const entry of Array.from(
+      kgmlDocument.documentElement.getElementsByTagName('entry')
+    )) {
+      const nodeType =
+        BiowcPathwaygraph.kgmlEntryTypes[entry.getAttribute('type') || ''];
+      const graphics = entry.getElementsByTagName('graphics')[0];
+      // Entries drawn as lines instead of boxes come without coordinates, we cannot place them.
+      // Groups are the exception, their position is determined by their members.
+      if (nodeType === 'group' || (nodeType && graphics?.hasAttribute('x'))) {
+        const node = {
+          nodeId: entry.getAttribute('id')!,
+          type: nodeType,
+          x: Number(graphics?.getAttribute('x') || 0),
+          y: Number(graphics?.getAttribute('y') || 0),
+        } as GeneProteinNode;
+
+        const graphicsName = graphics?.getAttribute('name') || '';
+        if (nodeType === 'gene_protein') {
+          // KEGG truncates long lists of names with '...', so the last name might be incomplete
+          node.geneNames = graphicsName
+            .split(', ')
+            .filter(name => name !== '' && !name.endsWith('...'));
+          node.uniprotAccs = [];
+          [node.defaultName] = node.geneNames;
+        } else if (nodeType === 'pathway') {
+          node.label = graphicsName.replace(/^TITLE:/, '');
+        } else if (nodeType === 'compound') {
+          node.label = graphicsName;
+          // Compound entries are named by their KEGG ids, e.g. 'cpd:C00001 cpd:C00002'
+          (<CompoundNode>(<PathwayGraphNode>node)).keggIds = (
+            entry.getAttribute('name') || ''
+          )
+            .split(' ')
+            .filter(name => name.startsWith('cpd:'))
+            .map(name => name.replace('cpd:', ''));
+        }
+        nodes.push(node);
+        nodeIds.add(node.nodeId);
+      }
+    }
+
+    // Assign the members of the groups. This can only happen after all entries have been converted.
+    for (const entry of Array.from(
+      kgmlDocument.documentElement.getElementsByTagName('entry')
+    )) {
+      if (
+        entry.getAttribute('type') === 'group' &&
+        nodeIds.has(entry.getAttribute('id')!)
+      ) {
+        const componentIds = Array.from(
+          entry.getElementsByTagName('component')
+        ).map(component => component.getAttribute('id'));
+        nodes
+          .filter(node => componentIds.includes(node.nodeId))
+          .forEach(node => {
+            // eslint-disable-next-line no-param-reassign
+            (<GeneProteinNode>node).groupId = entry.getAttribute('id')!;
+          });
+      }
+    }
+
+    Array.from(
+      kgmlDocument.documentElement.getElementsByTagName('relation')
+    ).forEach((relation, index) => {
+      const sourceId = relation.getAttribute('entry1')!;
+      const targetId = relation.getAttribute('entry2')!;
+      if (!nodeIds.has(sourceId) || !nodeIds.has(targetId)) return;
+
+      const types: string[] = [];
+      const labels: string[] = [];
+      // The 'compound' subtype only references the compound that mediates the relation, we do not convert it
+      for (const subtype of Array.from(
+        relation.getElementsByTagName('subtype')
+      )) {
+        const subtypeName = subtype.getAttribute('name') || '';
+        if (
+          Object.hasOwn(BiowcPathwaygraph.kgmlSubtypeLinkTypes, subtypeName)
+        ) {
+          types.push(BiowcPathwaygraph.kgmlSubtypeLinkTypes[subtypeName]);
+        } else if (
+          Object.hasOwn(BiowcPathwaygraph.kgmlSubtypeLabels, subtypeName)
+        ) {
+          labels.push(
+            subtype.getAttribute('value') ||
+              BiowcPathwaygraph.kgmlSubtypeLabels[subtypeName]
+          );
+        }
+      }
+
+      links.push({
+        linkId: `relation-${index + 1}`,
+        sourceId,
+        targetId,
+        types: types.length > 0 ? [...new Set(types)] : ['other'],
+        label: labels.length > 0 ? labels.join(' ') : undefined,
+      });
+    });
+
+    // Reactions are drawn as links from the substrates to the catalyzing enzyme and from there to the products.
+    // The id of a reaction is the id of the entry of its enzyme.
+    for (const reaction of Array.from(
+      kgmlDocument.documentElement.getElementsByTagName('reaction')
+    )) {
+      const enzymeId = reaction.getAttribute('id')!;
+      if (nodeIds.has(enzymeId)) {
+        const reactionTypes =
+          reaction.getAttribute('type') === 'reversible'
+            ? ['other', 'reversible']
+            : ['other'];
+        for (const substrate of Array.from(
+          reaction.getElementsByTagName('substrate')
+        )) {
+          const substrateId = substrate.getAttribute('id')!;
+          if (nodeIds.has(substrateId)) {
+            links.push({
+              linkId: `reaction-${enzymeId}-substrate-${substrateId}`,
+              sourceId: substrateId,
+              targetId: enzymeId,
+              types: reactionTypes,
+            });
+          }
+        }
+        for (const product of Array.from(
+          reaction.getElementsByTagName('product')
+        )) {
+          const productId = product.getAttribute('id')!;
+          if (nodeIds.has(productId)) {
+            links.push({
+              linkId: `reaction-${enzymeId}-product-${productId}`,
+              sourceId: enzymeId,
+              targetId: productId,
+              types: reactionTypes,
+            });
+          }
+        }
+      }
+    }
+
+    return { nodes, links };
+  }
+
+  public importGpml(gpml: string) {
+    // Replaces the current skeleton by the pathway described in a WikiPathways GPML document
+    this.graphdataSkeleton = BiowcPathwaygraph._parseGpml(gpml);
+  }
+
+  private static _parseGpml(gpml: string): {
+    nodes: PathwayGraphNode[];
+    links: PathwayGraphLinkInput[];
+  } {
+    const gpmlDocument = BiowcPathwaygraph._parseXml(gpml, 'Pathway');
+    const pathwayElement = gpmlDocument.documentElement;
+
+    // GPML 2021 renamed most attributes, so we always check for both spellings
+    const getAttribute = (
+      element: Element,
+      gpml2021Name: string,
+      gpml2013Name: string
+    ) =>
+      element.getAttribute(gpml2021Name) ||
+      element.getAttribute(gpml2013Name) ||
+      '';
+
+    const nodes: PathwayGraphNode[] = [];
+    const nodeIds = new Set<string>();
+
+    // In GPML 2013a, DataNodes reference their group by its 'GroupId', while Interactions reference it by its 'GraphId'.
+    // We use the latter as node id, so we need to keep track of the mapping.
+    const groupRefToNodeId: { [key: string]: string } = {};
+    for (const group of Array.from(
+      pathwayElement.getElementsByTagName('Group')
+    )) {
+      const groupNodeId =
+        getAttribute(group, 'elementId', 'GraphId') ||
+        group.getAttribute('GroupId')!;
+      groupRefToNodeId[group.getAttribute('GroupId') || groupNodeId] =
+        groupNodeId;
+      const graphics = group.getElementsByTagName('Graphics')[0];
+      nodes.push({
+        nodeId: groupNodeId,
+        type: 'group',
+        x: Number(getAttribute(graphics || group, 'centerX', 'CenterX') || 0),
+        y: Number(getAttribute(graphics || group, 'centerY', 'CenterY') || 0),
+      });
+      nodeIds.add(groupNodeId);
+    }
+
+    for (const dataNode of Array.from(
+      pathwayElement.getElementsByTagName('DataNode')
+    )) {
+      const nodeType =
+        BiowcPathwaygraph.gpmlDataNodeTypes[
+          getAttribute(dataNode, 'type', 'Type')
+        ];
+      const graphics = dataNode.getElementsByTagName('Graphics')[0];
+      if (nodeType && graphics) {
+        // Labels may contain line breaks to make them fit into the box
+        const textLabel = getAttribute(dataNode, 'textLabel', 'TextLabel')
+          .replace(/\s+/g, ' ')
+          .trim();
+        const node = {
+          nodeId: getAttribute(dataNode, 'elementId', 'GraphId'),
+          type: nodeType,
+          x: Number(getAttribute(graphics, 'centerX', 'CenterX')),
+          y: Number(getAttribute(graphics, 'centerY', 'CenterY')),
+        } as GeneProteinNode;
+
+        if (nodeType === 'gene_protein') {
+          node.geneNames = [textLabel];
+          node.uniprotAccs = [];
+          node.defaultName = textLabel;
+          // Uniprot accessions and HGNC symbols are the identifiers we can use for mapping PTM and protein data
+          const xref = dataNode.getElementsByTagName('Xref')[0];
+          if (xref) {
+            const database = getAttribute(xref, 'dataSource', 'Database');
+            const identifier = getAttribute(xref, 'identifier', 'ID').trim();
+            if (identifier !== '' && /uniprot/i.test(database)) {
+              node.uniprotAccs.push(identifier);
+            } else if (
+              identifier !== '' &&
+              /hgnc/i.test(database) &&
+              identifier !== textLabel
+            ) {
+              node.geneNames.push(identifier);
+            }
+          }
+        } else {
+          node.label = textLabel;
+        }
+        if (nodeType === 'compound') {
+          // Keep the identifiers that metabolite data can be mapped by
+          const xref = dataNode.getElementsByTagName('Xref')[0];
+          const database = xref
+            ? getAttribute(xref, 'dataSource', 'Database')
+            : '';
+          const identifier = xref
+            ? getAttribute(xref, 'identifier', 'ID').trim()
+            : '';
+          const identifierField = Object.entries(
+            BiowcPathwaygraph.gpmlCompoundDatabases
+          ).find(([pattern]) => new RegExp(pattern, 'i').test(database))?.[1];
+          if (identifier !== '' && identifierField) {
+            (<CompoundNode>(<PathwayGraphNode>node))[identifierField] = [
+              identifier,
+            ];
+          }
+        }
+
+        const groupRef = getAttribute(dataNode, 'groupRef', 'GroupRef');
+        if (groupRef && Object.hasOwn(groupRefToNodeId, groupRef)) {
+          node.groupId = groupRefToNodeId[groupRef];
+        }
+
+        nodes.push(node);
+        nodeIds.add(node.nodeId);
+      }
+    }
+
+    // Anchors are points on an Interaction that other Interactions can start or end on.
+    // The graph has no separate representation for them, instead those links reference the id of the anchored link.
+    const anchorIdToLinkId: { [key: string]: string } = {};
+    let links: PathwayGraphLinkInput[] = [];
+    Array.from(pathwayElement.getElementsByTagName('Interaction')).forEach(
+      (interaction, index) => {
+        const linkId =
+          getAttribute(interaction, 'elementId', 'GraphId') ||
+          `interaction-${index + 1}`;
+        for (const anchor of Array.from(
+          interaction.getElementsByTagName('Anchor')
+        )) {
+          anchorIdToLinkId[getAttribute(anchor, 'elementId', 'GraphId')] =
+            linkId;
+        }
+
+        const points = Array.from(interaction.getElementsByTagName('Point'));
+        if (points.length < 2) return;
+        let sourcePoint = points[0];
+        let targetPoint = points[points.length - 1];
+        // The arrowhead is usually drawn at the last point. If it is at the first one, the interaction points backwards.
+        if (
+          getAttribute(sourcePoint, 'arrowHead', 'ArrowHead') &&
+          !getAttribute(targetPoint, 'arrowHead', 'ArrowHead')
+        ) {
+          [sourcePoint, targetPoint] = [targetPoint, sourcePoint];
+        }
+        const arrowHead = getAttribute(targetPoint, 'arrowHead', 'ArrowHead');
+        let linkType = 'binding/association';
+        if (arrowHead) {
+          linkType = Object.hasOwn(
+            BiowcPathwaygraph.gpmlArrowHeadLinkTypes,
+            arrowHead
+          )
+            ? BiowcPathwaygraph.gpmlArrowHeadLinkTypes[arrowHead]
+            : 'other';
+        }
+
+        links.push({
+          linkId,
+          sourceId: getAttribute(sourcePoint, 'elementRef', 'GraphRef'),
+          targetId: getAttribute(targetPoint, 'elementRef', 'GraphRef'),
+          types: [linkType],
+        });
+      }
+    );
+
+    // Redirect references to anchors to the links the anchors sit on
+    for (const link of links) {
+      if (Object.hasOwn(anchorIdToLinkId, link.sourceId)) {
+        link.sourceId = anchorIdToLinkId[link.sourceId];
+      }
+      if (Object.hasOwn(anchorIdToLinkId, link.targetId)) {
+        link.targetId = anchorIdToLinkId[link.targetId];
+      }
+    }
+
+    // Remove links that are not connected on both ends (e.g. lines pointing to a Label or to nothing at all).
+    // Removing a link might disconnect links anchored on it, so repeat until nothing changes.
+    let nLinksBefore;
+    do {
+      nLinksBefore = links.length;
+      const linkIds = new Set(links.map(link => link.linkId));
+      links = links.filter(
+        link =>
+          (nodeIds.has(link.sourceId) || linkIds.has(link.sourceId)) &&
+          (nodeIds.has(link.targetId) || linkIds.has(link.targetId))
+      );
+    } while (links.length !== nLinksBefore);
+
+    return { nodes, links };
+  }
+
+  public importSbgn(sbgn: string) {
+    // Replaces the current skeleton by the pathway described in an SBGN-ML document (Process Description or Activity Flow)
+    this.graphdataSkeleton = BiowcPathwaygraph._parseSbgn(sbgn);
+  }
+
+  private static _parseSbgn(sbgn: string): {
+    nodes: PathwayGraphNode[];
+    links: PathwayGraphLinkInput[];
+  } {
+    const sbgnDocument = BiowcPathwaygraph._parseXml(sbgn, 'sbgn');
+    const mapElement =
+      sbgnDocument.documentElement.getElementsByTagName('map')[0];
+
+    const getChildElements = (element: Element, localName: string) =>
+      Array.from(element.children).filter(
+        child => child.localName === localName
+      );
+
+    const nodes: PathwayGraphNode[] = [];
+    // Arcs may point to glyphs that have no node of their own (ports, nested complexes), so we keep track of where they belong
+    const glyphIdToNodeId: { [key: string]: string } = {};
+    const processes: {
+      [key: string]: {
+        processClass: string;
+        substrateIds: string[];
+        productIds: string[];
+        modulators: { sourceId: string; linkType: string }[];
+      };
+    } = {};
+
+    const convertGlyph = (glyph: Element, groupId?: string) => {
+      const glyphClass = glyph.getAttribute('class') || '';
+      const glyphId = glyph.getAttribute('id')!;
+
+      if (BiowcPathwaygraph.sbgnProcessClasses.includes(glyphClass)) {
+        processes[glyphId] = {
+          processClass: glyphClass,
+          substrateIds: [],
+          productIds: [],
+          modulators: [],
+        };
+        glyphIdToNodeId[glyphId] = glyphId;
+        getChildElements(glyph, 'port').forEach(port => {
+          glyphIdToNodeId[port.getAttribute('id')!] = glyphId;
+        });
+        return;
+      }
+
+      let nodeType = BiowcPathwaygraph.sbgnGlyphNodeTypes[glyphClass];
+      if (glyphClass === 'biological activity') {
+        const unitOfInformation = getChildElements(glyph, 'glyph')
+          .filter(
+            child => child.getAttribute('class') === 'unit of information'
+          )
+          .map(child =>
+            getChildElements(child, 'label')[0]?.getAttribute('text')
+          )
+          .find(text => !!text);
+        nodeType =
+          unitOfInformation === 'simple chemical' ? 'compound' : 'gene_protein';
+      }
+      if (!nodeType) return;
+
+      // Complexes can be nested, but the graph only supports one level of groups, so members of inner complexes are added to the outermost one
+      if (nodeType === 'group' && groupId) {
+        glyphIdToNodeId[glyphId] = groupId;
+        getChildElements(glyph, 'glyph').forEach(member =>
+          convertGlyph(member, groupId)
+        );
+        return;
+      }
+
+      // The bounding box is given by its upper left corner, but the graph positions nodes by their center
+      const bbox = getChildElements(glyph, 'bbox')[0];
+      const node = {
+        nodeId: glyphId,
+        type: nodeType,
+        x: bbox
+          ? Number(bbox.getAttribute('x')) + Number(bbox.getAttribute('w')) / 2
+          : 0,
+        y: bbox
+          ? Number(bbox.getAttribute('y')) + Number(bbox.getAttribute('h')) / 2
+          : 0,
+      } as GeneProteinNode;
+      const labelText = (
+        getChildElements(glyph, 'label')[0]?.getAttribute('text') || ''
+      )
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (nodeType === 'gene_protein') {
+        node.geneNames = labelText !== '' ? [labelText] : [];
+        node.uniprotAccs = [];
+        node.defaultName = labelText;
+      } else if (nodeType !== 'group') {
+        node.label = labelText;
+      }
+      if (groupId) node.groupId = groupId;
+
+      nodes.push(node);
+      glyphIdToNodeId[glyphId] = glyphId;
+
+      if (nodeType === 'group') {
+        getChildElements(glyph, 'glyph').forEach(member =>
+          convertGlyph(member, glyphId)
+        );
+      }
+    };
+
+    getChildElements(mapElement, 'glyph').forEach(glyph => convertGlyph(glyph));
+
+    const links: PathwayGraphLinkInput[] = [];
+    getChildElements(mapElement, 'arc').forEach((arc, index) => {
+      const arcClass = arc.getAttribute('class') || '';
+      const sourceId = glyphIdToNodeId[arc.getAttribute('source') || ''];
+      const targetId = glyphIdToNodeId[arc.getAttribute('target') || ''];
+      if (!sourceId || !targetId) return;
+
+      if (arcClass === 'consumption' && Object.hasOwn(processes, targetId)) {
+        processes[targetId].substrateIds.push(sourceId);
+      } else if (
+        arcClass === 'production' &&
+        Object.hasOwn(processes, sourceId)
+      ) {
+        processes[sourceId].productIds.push(targetId);
+      } else if (Object.hasOwn(BiowcPathwaygraph.sbgnArcLinkTypes, arcClass)) {
+        const linkType = BiowcPathwaygraph.sbgnArcLinkTypes[arcClass];
+        if (Object.hasOwn(processes, targetId)) {
+          processes[targetId].modulators.push({ sourceId, linkType });
+        } else if (!Object.hasOwn(processes, sourceId)) {
+          links.push({
+            linkId: arc.getAttribute('id') || `arc-${index + 1}`,
+            sourceId,
+            targetId,
+            types: [linkType],
+          });
+        }
+      }
+    });
+
+    // The graph has no process nodes. Instead, each process becomes a link from each of its substrates to each of its products,
+    // and the modulations of the process are anchored on the first of these links.
+    for (const [processId, process] of Object.entries(processes)) {
+      const processLinkIds: string[] = [];
+      for (const substrateId of process.substrateIds) {
+        for (const productId of process.productIds) {
+          const linkId = `${processId}-${processLinkIds.length + 1}`;
+          links.push({
+            linkId,
+            sourceId: substrateId,
+            targetId: productId,
+            types: [
+              process.processClass === 'association'
+                ? 'binding/association'
+                : 'other',
+            ],
+          });
+          processLinkIds.push(linkId);
+        }
+      }
+      if (processLinkIds.length > 0) {
+        process.modulators.forEach((modulator, modulatorIndex) => {
+          links.push({
+            linkId: `${processId}-modulation-${modulatorIndex + 1}`,
+            sourceId: modulator.sourceId,
+            targetId: processLinkIds[0],
+            types: [modulator.linkType],
+          });
+        });
+      }
+    }
+
+    return { nodes, links };
+  }
+
+  public importPtmTable(
+    table: string,
+    format: PossiblePTMTableFormat = 'generic',
+    columnMapping: PTMTableColumnMapping = {}
+  ) {
+    // Replaces the current PTM input by the rows of a TSV or CSV table.
+    // The column mapping of the format can be extended or overridden by the columnMapping argument.
+    this.ptmInputList = BiowcPathwaygraph._parsePtmTable(
+      table,
+      format,
+      columnMapping
+    );
+    return this.ptmInputList;
+  }
+
+  private static _parsePtmTable(
+    table: string,
+    format: PossiblePTMTableFormat,
+    columnMapping: PTMTableColumnMapping
+  ): PTMInputEntry[] {
+    const mapping = {
+      ...BiowcPathwaygraph.ptmTableFormats[format],
+      ...columnMapping,
+    };
+    const [header, ...rows] = BiowcPathwaygraph._parseDelimitedText(
+      table,
+      mapping.delimiter
+    );
+    if (!header) {
+      throw new Error('Could not parse input, the table is empty.');
+    }
+    const columnIndices = Object.fromEntries(
+      header.map((columnName, index) => [columnName.trim(), index])
+    );
+
+    // Columns from the format may be missing in a particular table, but columns that were asked for explicitly must be there
+    const requestedColumns = Object.entries(columnMapping)
+      .filter(([key]) => !['listSeparator', 'delimiter'].includes(key))
+      .flatMap(([, value]) => value);
+    for (const column of requestedColumns) {
+      if (!Object.hasOwn(columnIndices, column)) {
+        throw new Error(`Could not parse input, column '${column}' not found.`);
+      }
     }
     if (
-      !serializedSVG.match(/^<svg[^>]+"http:\/\/www\.w3\.org\/1999\/xlink"/)
+      !Object.hasOwn(columnIndices, mapping.geneNames || '') &&
+      !Object.hasOwn(columnIndices, mapping.uniprotAccs || '')
     ) {
-      serializedSVG = serializedSVG.replace(
-        /^<svg/,
-        '<svg xmlns:xlink="http://www.w3.org/1999/xlink"'
+      throw new Error(
+        'Could not parse input, the table has neither a gene name nor a Uniprot column.'
       );
     }
 
-    return serializedSVG;
-  }
+    const listSeparator = mapping.listSeparator ?? ';';
+    const splitList = (value: string) =>
+      value
+        .split(listSeparator)
+        .map(entry => entry.trim())
+        .filter(entry => entry !== '');
+
+    const ptmInputList: PTMInputEntry[] = [];
+    rows.forEach(row => {
+      const getValue = (column?: string) =>
+        column && Object.hasOwn(columnIndices, column)
+          ? (row[columnIndices[column]] ?? '').trim()
+          : '';
 
-  public downloadSvg() {
-    // Make sure ptmlinks are invisible (they should be already
-    // but due to some bug they sometimes aren't)
-    this._getMainDiv()
-      .selectAll<SVGLineElement, PathwayGraphLinkD3>('.linkgroup.ptmlink')
-      .attr('display', 'none');
+      if (mapping.excludeIfMarked?.some(column => getValue(column) === '+'))
+        return;
 
-    const serializedSVG = this._prepareForExport();
-    const blob = new Blob([serializedSVG], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
+      const geneNames = splitList(getValue(mapping.geneNames));
+      const uniprotAccs = splitList(getValue(mapping.uniprotAccs));
+      if (geneNames.length === 0 && uniprotAccs.length === 0) return;
+
+      const details: { [key: string]: string | number } = {};
+      const site =
+        getValue(mapping.site) ||
+        (getValue(mapping.aminoAcid) && getValue(mapping.position)
+          ? `${getValue(mapping.aminoAcid)}${getValue(mapping.position)}`
+          : '');
+      if (site) details.Site = site;
+      const modifiedSequence = getValue(mapping.modifiedSequence);
+      if (modifiedSequence) details['Modified Sequence'] = modifiedSequence;
+      const numericColumns: [string | undefined, string][] = [
+        [mapping.foldChange, 'Log Fold Change'],
+        [mapping.pValue, 'p Value'],
+        [mapping.qValue, 'q Value'],
+        [mapping.potency, '-log(EC50)'],
+      ];
+      for (const [column, detailKey] of numericColumns) {
+        const value = getValue(column);
+        if (value && !Number.isNaN(Number(value)))
+          details[detailKey] = Number(value);
+      }
+      // The component expects the kinases to be separated by commas
+      const upstreamKinases = splitList(
+        getValue(mapping.upstreamKinases).replaceAll(',', listSeparator)
+      );
+      if (upstreamKinases.length > 0)
+        details['Upstream Kinase(s)'] = upstreamKinases.join(', ');
+      for (const column of mapping.detailColumns || []) {
+        const value = getValue(column);
+        if (value !== '') {
+          details[column] = Number.isNaN(Number(value)) ? value : Number(value);
+        }
+      }
 
-    const a = document.createElement('a');
-    a.download = 'pathwaygraph.svg';
-    a.href = url;
-    a.click();
+      const ptmInputEntry: PTMInputEntry = { geneNames, uniprotAccs, details };
+      const regulationValue = getValue(mapping.regulation).toLowerCase();
+      if (regulationValue) {
+        ptmInputEntry.regulation = 'not';
+        if (regulationValue.startsWith('up')) ptmInputEntry.regulation = 'up';
+        if (regulationValue.startsWith('down'))
+          ptmInputEntry.regulation = 'down';
+      }
+      ptmInputList.push(ptmInputEntry);
+    });
+    return ptmInputList;
   }
 
-  public downloadPeptidesCSV() {
-    // Provides a CSV file that contains all peptides that are mapped in the currently displayed diagram
-    const peptidesJSON = this.graphdataPTM!.nodes.filter(
-      node => node.type === 'ptm'
-    ).map(node => ({
-      'Modified Sequence': (<PTMNodeD3>node).detailsInternal?.[
-        'Modified Sequence'
-      ],
-      'Gene Name(s)': (<PTMNodeD3>node).detailsInternal?.['Gene Name(s)'],
-      // @ts-ignore
-      Uniprot: (<PTMNodeD3>node).detailsInternal?.Uniprot_Accession_Number,
-      Experiment: (<PTMNodeD3>node).detailsInternal?.['Experiment Name'],
-      Regulation: (<PTMNodeD3>node).regulation,
-    }));
+  public importKinaseSubstrateTable(
+    table: string,
+    format: PossibleKinaseSubstrateTableFormat,
+    columnMapping: Partial<KinaseSubstrateTableColumnMapping> = {}
+  ) {
+    // Replaces the current kinase-substrate relationships by the rows of a TSV or CSV table
+    this.kinaseSubstrateRelationships =
+      BiowcPathwaygraph._parseKinaseSubstrateTable(table, {
+        ...BiowcPathwaygraph.kinaseSubstrateTableFormats[format],
+        ...columnMapping,
+      });
+    return this.kinaseSubstrateRelationships;
+  }
 
-    const replacer = (key: string, value: string | null) =>
-      value === null ? '' : value; // specify how you want to handle null values here
-    const header = Object.keys(peptidesJSON[0]);
-    const peptidesCSV = [
-      header.join('\t'), // header row first
-      ...peptidesJSON.map(row =>
-        header
-          // @ts-ignore
-          .map(fieldName => JSON.stringify(row[fieldName], replacer))
-          .join('\t')
-      ),
-    ].join('\r\n');
+  private static _parseKinaseSubstrateTable(
+    table: string,
+    mapping: KinaseSubstrateTableColumnMapping
+  ): KinaseSubstrateRelationship[] {
+    // PhosphoSitePlus downloads start with a license notice, so the table begins at the line with the kinase column
+    const lines = table.split(/\r?\n/);
+    const headerLineIndex = lines.findIndex(line =>
+      line
+        .split(/[\t;,]/)
+        .map(cell => cell.trim().replace(/^"|"$/g, ''))
+        .includes(mapping.kinase)
+    );
+    const [header, ...rows] = BiowcPathwaygraph._parseDelimitedText(
+      lines.slice(Math.max(headerLineIndex, 0)).join('\n')
+    );
+    if (!header) {
+      throw new Error('Could not parse input, the table is empty.');
+    }
+    const columnIndices = Object.fromEntries(
+      header.map((columnName, index) => [columnName.trim(), index])
+    );
+    for (const column of [mapping.kinase, mapping.substrate]) {
+      if (!Object.hasOwn(columnIndices, column)) {
+        throw new Error(`Could not parse input, column '${column}' not found.`);
+      }
+    }
 
-    const blob = new Blob([peptidesCSV], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
+    const relationships: KinaseSubstrateRelationship[] = [];
+    rows.forEach(row => {
+      const getValue = (column?: string) =>
+        column && Object.hasOwn(columnIndices, column)
+          ? (row[columnIndices[column]] ?? '').trim()
+          : '';
 
-    const a = document.createElement('a');
-    a.download = 'mappedPeptides.csv';
-    a.href = url;
-    a.click();
+      const kinase = getValue(mapping.kinase);
+      const substrate = getValue(mapping.substrate);
+      if (kinase === '' || substrate === '') return;
+      if (
+        mapping.modification &&
+        Object.hasOwn(columnIndices, mapping.modification) &&
+        getValue(mapping.modification).toLowerCase() !== 'phosphorylation'
+      )
+        return;
+
+      const site =
+        getValue(mapping.site) ||
+        `${getValue(mapping.aminoAcid)}${getValue(mapping.position)}`;
+      const score = getValue(mapping.score);
+      const sources = getValue(mapping.source)
+        .split(';')
+        .map(source => source.trim())
+        .filter(source => source !== '');
+      if (sources.length === 0 && mapping.defaultSource) {
+        sources.push(mapping.defaultSource);
+      }
+
+      const relationship: KinaseSubstrateRelationship = { kinase, substrate };
+      if (site !== '') relationship.site = site;
+      if (score !== '' && !Number.isNaN(Number(score))) {
+        relationship.score = Number(score);
+      }
+      if (sources.length === 0) {
+        relationships.push(relationship);
+      } else {
+        // One relationship per source, so that they can be filtered by source
+        sources.forEach(source =>
+          relationships.push({ ...relationship, source })
+        );
+      }
+    });
+    return relationships;
   }
 
-  public exportSkeleton(name: string, title: string) {
-    return JSON.stringify(
-      {
-        pathway: { name, title },
-        nodes: (<GeneProteinNodeD3[]>this.d3Nodes)
-          ?.filter(d3node => !d3node.nodeId.includes('ptm'))
-          .map(d3node => ({
-            id: d3node.nodeId,
-            geneNames: d3node.geneNames,
-            type: d3node.type,
-            x: Number(d3node.x.toFixed(1)),
-            y: Number(d3node.y.toFixed(1)),
-            uniprotAccs: d3node.uniprotAccs,
-            label: d3node.label,
-            groupId: d3node.groupId,
-          })),
-        links: this.d3Links
-          ?.filter(d3link => !d3link.linkId.includes('ptm'))
-          .map(d3link => {
-            const { linkId, sourceId, targetId, types, label } = d3link;
-            return { id: linkId, sourceId, targetId, types, label };
-          }),
-      },
-      null,
-      0
-    );
+  private static _parseDelimitedText(text: string, delimiter?: string) {
+    // Splits a TSV or CSV text into rows and cells. Cells may be quoted, in which case they can contain delimiters,
+    // line breaks and escaped ("") quotes.
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const columnDelimiter =
+      delimiter ??
+      ['\t', ';', ','].reduce((mostFrequent, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(mostFrequent).length
+          ? candidate
+          : mostFrequent
+      );
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let isQuoted = false;
+    for (let i = 0; i < text.length; i += 1) {
+      const character = text[i];
+      if (isQuoted) {
+        if (character === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i += 1;
+        } else if (character === '"') {
+          isQuoted = false;
+        } else {
+          cell += character;
+        }
+      } else if (character === '"' && cell === '') {
+        isQuoted = true;
+      } else if (character === columnDelimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (character === '\n' || character === '\r') {
+        if (character === '\r' && text[i + 1] === '\n') i += 1;
+        row.push(cell);
+        cell = '';
+        if (row.some(value => value !== '')) rows.push(row);
+        row = [];
+      } else {
+        cell += character;
+      }
+    }
+    row.push(cell);
+    if (row.some(value => value !== '')) rows.push(row);
+    return rows;
   }
 
   public selectNodesDownstreamOfSelection() {
@@ -4179,6 +9593,20 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
   }
 
   private _setUpViewingModeContextMenu() {
+    const kinaseSubstrateLinks = this.d3Links!.filter(link =>
+      link.types.includes('kinaseSubstrateLink')
+    );
+    const kinaseSubstrateSources = [
+      ...new Set(kinaseSubstrateLinks.flatMap(link => link.sources ?? [])),
+    ];
+    const modificationTypes = this._getModificationTypes();
+    const kinaseSubstrateScoreThresholds =
+      BiowcPathwaygraph._getScoreThresholds(
+        kinaseSubstrateLinks
+          .filter(link => link.score !== undefined)
+          .map(link => link.score!)
+      );
+
     this.contextMenuCommands = <ContextMenuCommand[]>[
       // Context Menu for Canvas
       {
@@ -4286,6 +9714,69 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
         type: 'radio',
         checked: () => this.allKinaseSubstrateLinksVisible,
       },
+      {
+        target: 'svg',
+        label: 'Filter Kinase-Substrate Relationships',
+        visible: () => kinaseSubstrateSources.length > 0,
+        execute: ctx => {
+          const filter = this.kinaseSubstrateLinkFilter ?? {};
+          if (ctx.item.id!.startsWith('source-')) {
+            const source =
+              kinaseSubstrateSources[
+                Number(ctx.item.id!.replace('source-', ''))
+              ];
+            const currentSources = filter.sources ?? kinaseSubstrateSources;
+            const sources = currentSources.includes(source)
+              ? currentSources.filter(otherSource => otherSource !== source)
+              : [...currentSources, source];
+            this.kinaseSubstrateLinkFilter = {
+              ...filter,
+              // Without a restriction, links from sources that are added later are also shown
+              sources:
+                sources.length === kinaseSubstrateSources.length
+                  ? undefined
+                  : sources,
+            };
+          } else {
+            this.kinaseSubstrateLinkFilter = {
+              ...filter,
+              minScore:
+                ctx.item.id === 'score-any'
+                  ? undefined
+                  : kinaseSubstrateScoreThresholds[
+                      Number(ctx.item.id!.replace('score-', ''))
+                    ],
+            };
+          }
+        },
+        children: [
+          ...kinaseSubstrateSources.map((source, index) => ({
+            type: 'radio',
+            id: `source-${index}`,
+            label: source,
+            checked: () =>
+              !this.kinaseSubstrateLinkFilter?.sources ||
+              this.kinaseSubstrateLinkFilter.sources.includes(source),
+          })),
+          {
+            type: 'separator',
+          },
+          {
+            type: 'radio',
+            id: 'score-any',
+            label: 'Any Score',
+            checked: () =>
+              this.kinaseSubstrateLinkFilter?.minScore === undefined,
+          },
+          ...kinaseSubstrateScoreThresholds.map((threshold, index) => ({
+            type: 'radio',
+            id: `score-${index}`,
+            label: `Score ≥ ${threshold}`,
+            checked: () =>
+              this.kinaseSubstrateLinkFilter?.minScore === threshold,
+          })),
+        ],
+      },
       {
         target: 'svg',
         label: 'Highlight Differentially Active Kinases',
@@ -4321,6 +9812,16 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
             label: 'Not regulated PTMs',
             checked: ctx => ctx.store.get('show-not'),
           },
+          // If the PTMs have several modification types, each of them can be hidden as well
+          ...(modificationTypes.length > 1
+            ? modificationTypes.map(modificationType => ({
+                type: 'radio',
+                id: `type-${modificationType}`,
+                label: `${BiowcPathwaygraph.modificationTypes[modificationType].label} Sites`,
+                checked: (ctx: ExecuteOptions) =>
+                  ctx.store.get(`show-type-${modificationType}`),
+              }))
+            : []),
         ],
       },
       {
@@ -4337,38 +9838,52 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
             label: 'By Direction',
             checked: ctx => ctx.store.get('hue') === 'direction',
           },
-          {
+          ...this._getHueModes().map(hueMode => ({
             type: 'radio',
-            id: 'foldchange',
-            label: 'By Fold Change',
-            checked: ctx => ctx.store.get('hue') === 'foldchange',
+            id: hueMode.id,
+            label: `By ${hueMode.label}`,
+            checked: (ctx: ExecuteOptions) =>
+              ctx.store.get('hue') === hueMode.id,
+            // Only offer modes that would color at least one node
             enabled: () =>
-              this.d3Nodes?.some(
+              this._getColoredNodes().some(
                 node =>
-                  node?.type === 'ptm' &&
-                  !!(<PTMNodeD3>node).detailsInternal &&
-                  (Object.hasOwn(
-                    (<PTMNodeD3>node).detailsInternal!,
-                    'Fold Change'
-                  ) ||
-                    Object.hasOwn(
-                      (<PTMNodeD3>node).detailsInternal!,
-                      'Log Fold Change'
-                    ))
+                  !Number.isNaN(
+                    BiowcPathwaygraph._getHueModeValue(hueMode, node)
+                  )
               ),
+          })),
+        ],
+      },
+      {
+        target: 'svg',
+        label: 'Condition',
+        visible: () => this._getConditionNames().length > 1,
+        execute: ctx => {
+          if (ctx.item.id === 'split') {
+            this.isConditionSplitViewActive = !this.isConditionSplitViewActive;
+            this._calculateHueRange();
+            this._renderLegend();
+            this._refreshGraph(true);
+          } else {
+            this.setTimepoint(Number(ctx.item.id!.replace('condition-', '')));
+          }
+        },
+        children: [
+          ...this._getConditionNames().map((condition, index) => ({
+            type: 'radio',
+            id: `condition-${index}`,
+            label: condition,
+            checked: () => this._getActiveCondition() === condition,
+          })),
+          {
+            type: 'separator',
           },
           {
             type: 'radio',
-            id: 'potency',
-            label: 'By Potency',
-            checked: ctx => ctx.store.get('hue') === 'potency',
-            enabled: () =>
-              this.d3Nodes?.some(
-                node =>
-                  node?.type === 'ptm' &&
-                  !!(<PTMNodeD3>node).detailsInternal &&
-                  !!(<PTMNodeD3>node).detailsInternal!['-log(EC50)']
-              ),
+            id: 'split',
+            label: 'Show All Conditions Side by Side',
+            checked: () => this.isConditionSplitViewActive,
           },
         ],
       },
@@ -4377,6 +9892,16 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
     this.contextMenuCommands.push(
       ...(<ContextMenuCommand[]>[
         // Context Menu for PTM Nodes
+        {
+          target: BiowcPathwaygraph.ptmNodes,
+          label: 'Pin Dose-Response Curve',
+          enabled: (ctx: EnabledOptions) =>
+            // @ts-ignore
+            !!ctx.target.__data__.doseResponse,
+          execute: (ctx: ExecuteOptions) =>
+            // @ts-ignore
+            this.pinDoseResponsePanel(ctx.target.__data__.nodeId),
+        },
         {
           target: BiowcPathwaygraph.ptmNodes,
           label: 'Show Kinase-Substrate Relationships for Node',
@@ -4699,7 +10224,10 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
         // Only do this when in viewing mode
         if (this.applicationMode === 'viewing') {
           // Hide the tooltip when the context menu is shown
-          this._getMainDiv().select('#nodetooltip').style('opacity', '0');
+          this._getMainDiv()
+            .select('#nodetooltip')
+            .style('opacity', '0')
+            .style('visibility', 'hidden');
           const nameAlternatives = BiowcPathwaygraph._calcPossibleLabels(
             <GeneProteinNodeD3>node
           );
@@ -5084,33 +10612,117 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
   }
 
   private _updateRangeSliderVisibility() {
-    const potencyRangeSliderDiv: HTMLDivElement =
-      this.shadowRoot?.querySelector('#potencyRangeSlider')!;
-    if (this.hue === 'potency') {
-      if (potencyRangeSliderDiv.style.visibility === 'hidden') {
-        this._initRangeSlider();
+    const colorRangeSliderDiv: HTMLDivElement =
+      this.shadowRoot?.querySelector('#colorRangeSlider')!;
+    const hueMode = this._getHueMode();
+    if (hueMode?.rangeSlider) {
+      if (
+        colorRangeSliderDiv.style.visibility === 'hidden' ||
+        this.rangeSliderHueMode !== hueMode.id
+      ) {
+        this._initRangeSlider(hueMode);
       }
-      potencyRangeSliderDiv.style.visibility = 'visible';
+      colorRangeSliderDiv.style.visibility = 'visible';
     } else {
-      potencyRangeSliderDiv.style.visibility = 'hidden';
+      colorRangeSliderDiv.style.visibility = 'hidden';
     }
   }
 
-  private _initRangeSlider() {
+  private _updateRegulationThresholdControl() {
+    // The control is only needed if some of the input entries have their regulation derived from the thresholds
+    const regulationThresholdControlDiv: HTMLDivElement =
+      this.shadowRoot?.querySelector('#regulationThresholdControl')!;
+    const isAnyRegulationDerived = [
+      ...(this.ptmInputList || []),
+      ...(this.proteinInputList || []),
+      ...(this.metaboliteInputList || []),
+    ].some(inputEntry => !inputEntry.regulation);
+    regulationThresholdControlDiv.style.visibility = isAnyRegulationDerived
+      ? 'visible'
+      : 'hidden';
+
+    const thresholds = {
+      ...BiowcPathwaygraph.defaultRegulationThresholds,
+      ...this.regulationThresholds,
+    };
+    const foldChangeCutoffInput: HTMLInputElement =
+      this.shadowRoot?.querySelector('#foldChangeCutoffInput')!;
+    const significanceCutoffInput: HTMLInputElement =
+      this.shadowRoot?.querySelector('#significanceCutoffInput')!;
+    const volcanoCurvatureInput: HTMLInputElement =
+      this.shadowRoot?.querySelector('#volcanoCurvatureInput')!;
+    foldChangeCutoffInput.value = String(thresholds.foldChangeCutoff);
+    significanceCutoffInput.value = String(thresholds.significanceCutoff);
+    volcanoCurvatureInput.value = String(thresholds.volcanoCurvature);
+    this.shadowRoot!.querySelector(
+      '#significanceCutoffLabel'
+    )!.textContent = `${thresholds.significanceKey} ≤`;
+
+    // Setting the property triggers an update, which maps the input entries to the pathway again
+    const onThresholdChange = () => {
+      const [foldChangeCutoff, significanceCutoff, volcanoCurvature] = [
+        foldChangeCutoffInput,
+        significanceCutoffInput,
+        volcanoCurvatureInput,
+      ].map(input => input.valueAsNumber);
+      if (
+        [foldChangeCutoff, significanceCutoff, volcanoCurvature].some(value =>
+          Number.isNaN(value)
+        )
+      )
+        return;
+      this.regulationThresholds = {
+        ...this.regulationThresholds,
+        foldChangeCutoff,
+        significanceCutoff,
+        volcanoCurvature,
+      };
+    };
+    foldChangeCutoffInput.onchange = onThresholdChange;
+    significanceCutoffInput.onchange = onThresholdChange;
+    volcanoCurvatureInput.onchange = onThresholdChange;
+  }
+
+  private _initRangeSlider(hueMode: HueMode) {
+    this.rangeSliderHueMode = hueMode.id;
     const fromSlider: HTMLInputElement =
       this.shadowRoot?.querySelector('#fromSlider')!;
     const toSlider: HTMLInputElement =
       this.shadowRoot?.querySelector('#toSlider')!;
+    // The sliders work on the transformed values, so they are labeled like the legend
+    this.shadowRoot!.querySelector('#colorRangeSliderLabel')!.textContent = `${
+      hueMode.logTransform ? 'log10 ' : ''
+    }${hueMode.legendTitle || hueMode.label} Range:`;
+
+    // The sliders cover the values of all nodes, as well as the domain of the hue mode
+    const values = this._getColoredNodes()
+      .map(node => BiowcPathwaygraph._getHueModeValue(hueMode, node))
+      .filter(value => !Number.isNaN(value));
+    const sliderMin = Math.floor(
+      values.reduce(
+        (currentMin, value) => Math.min(value, currentMin),
+        this.colorRangeMin!
+      )
+    );
+    const sliderMax = Math.ceil(
+      values.reduce(
+        (currentMax, value) => Math.max(value, currentMax),
+        this.colorRangeMax!
+      )
+    );
+    const sliderStep = sliderMax - sliderMin > 5 ? '1' : '0.1';
 
-    fromSlider.min = String(Math.min(Math.floor(this.colorRangeMin!), 5));
-    fromSlider.max = String(Math.max(Math.ceil(this.colorRangeMax!), 9));
+    fromSlider.min = String(sliderMin);
+    fromSlider.max = String(sliderMax);
+    fromSlider.step = sliderStep;
 
-    toSlider.min = String(Math.min(Math.floor(this.colorRangeMin!), 5));
-    toSlider.max = String(Math.max(Math.ceil(this.colorRangeMax!), 9));
+    toSlider.min = String(sliderMin);
+    toSlider.max = String(sliderMax);
+    toSlider.step = sliderStep;
 
-    // We use 5-9 as the default range for the sliders. So if it is within the range, set the sliders to those values
-    fromSlider.value = String(5);
-    toSlider.value = String(9);
+    // The domain of the hue mode is the initial range of the sliders
+    fromSlider.value = String(this.colorRangeMin);
+    toSlider.value = String(this.colorRangeMax);
 
     const fromSliderOutput: HTMLOutputElement =
       this.shadowRoot?.querySelector('#fromSliderOutput')!;
@@ -5209,6 +10821,85 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
     this._renderLegend();
   }
 
+  private _getTimepoint() {
+    // The timepoints are the conditions of the input, in the order in which they first appear
+    return this._getConditionNames().indexOf(this._getActiveCondition() ?? '');
+  }
+
+  public setTimepoint(index: number) {
+    const conditionNames = this._getConditionNames();
+    if (conditionNames.length === 0) return;
+    const timepoint = Math.min(
+      Math.max(Math.round(index), 0),
+      conditionNames.length - 1
+    );
+    // Stepping beyond the first or last timepoint does not change anything
+    if (conditionNames[timepoint] === this._getActiveCondition()) return;
+    this.activeCondition = conditionNames[timepoint];
+    this.dispatchEvent(
+      new CustomEvent('timepointChanged', {
+        bubbles: true,
+        cancelable: true,
+        detail: { index: timepoint, condition: conditionNames[timepoint] },
+      })
+    );
+  }
+
+  public play() {
+    const conditionNames = this._getConditionNames();
+    if (this.playbackIntervalId || conditionNames.length < 2) return;
+    // Start over if the last timepoint has been reached
+    if (this._getTimepoint() === conditionNames.length - 1)
+      this.setTimepoint(0);
+    this.playbackIntervalId = setInterval(() => {
+      const nextTimepoint = this._getTimepoint() + 1;
+      this.setTimepoint(nextTimepoint);
+      if (nextTimepoint >= this._getConditionNames().length - 1) this.pause();
+    }, this.playbackStepDuration);
+    this._updateTimepointPlayback();
+  }
+
+  public pause() {
+    clearInterval(this.playbackIntervalId);
+    this.playbackIntervalId = undefined;
+    this._updateTimepointPlayback();
+  }
+
+  private _updateTimepointPlayback() {
+    const conditionNames = this._getConditionNames();
+    const timepointPlaybackDiv: HTMLDivElement =
+      this.shadowRoot?.querySelector('#timepointPlayback')!;
+    timepointPlaybackDiv.style.visibility =
+      conditionNames.length > 1 ? 'visible' : 'hidden';
+
+    const timepointSlider: HTMLInputElement =
+      this.shadowRoot?.querySelector('#timepointSlider')!;
+    timepointSlider.max = String(Math.max(conditionNames.length - 1, 0));
+    timepointSlider.value = String(Math.max(this._getTimepoint(), 0));
+    timepointSlider.oninput = () =>
+      this.setTimepoint(Number(timepointSlider.value));
+    const timepointOutput: HTMLOutputElement =
+      this.shadowRoot?.querySelector('#timepointOutput')!;
+    timepointOutput.value = this._getActiveCondition() ?? '';
+
+    const playButton: HTMLButtonElement = this.shadowRoot?.querySelector(
+      '#timepointPlayButton'
+    )!;
+    playButton.textContent = this.playbackIntervalId ? '⏸' : '▶';
+    playButton.setAttribute(
+      'aria-label',
+      this.playbackIntervalId ? 'Pause' : 'Play'
+    );
+    playButton.onclick = () =>
+      this.playbackIntervalId ? this.pause() : this.play();
+    (<HTMLButtonElement>(
+      this.shadowRoot?.querySelector('#timepointBackButton')
+    )).onclick = () => this.setTimepoint(this._getTimepoint() - 1);
+    (<HTMLButtonElement>(
+      this.shadowRoot?.querySelector('#timepointForwardButton')
+    )).onclick = () => this.setTimepoint(this._getTimepoint() + 1);
+  }
+
   public collapseAllPTMNodes() {
     if (!this.isNodeExpandAndCollapseAllowed) return;
 
@@ -5223,6 +10914,230 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
     this._refreshGraph(true);
   }
 
+  public pinDetailCard(nodeId: string) {
+    const node = this.d3Nodes?.find(d3Node => d3Node.nodeId === nodeId);
+    if (
+      !node ||
+      this.detailCards.some(detailCard => detailCard.nodeId === nodeId)
+    ) {
+      return;
+    }
+    // The card starts to the upper right of its node
+    const [nodeX, nodeY] = d3v6
+      .zoomTransform(this._getMainDiv().node()!)
+      .apply([node.x!, node.y!]);
+    this.detailCards.push({ nodeId, x: nodeX + 40, y: nodeY - 60 });
+    this._renderDetailCards();
+  }
+
+  public unpinDetailCard(nodeId: string) {
+    this.detailCards = this.detailCards.filter(
+      detailCard => detailCard.nodeId !== nodeId
+    );
+    this._renderDetailCards();
+  }
+
+  private _renderDetailCards() {
+    const mainDiv = this._getMainDiv();
+    if (mainDiv.empty()) return;
+    // Cards of nodes that no longer exist are closed
+    const nodesById = new Map(
+      (this.d3Nodes || []).map(node => [node.nodeId, node])
+    );
+    this.detailCards = this.detailCards.filter(detailCard =>
+      nodesById.has(detailCard.nodeId)
+    );
+
+    mainDiv.select('#detailCards').remove();
+    // The cards are drawn outside of the zoomed groups, in front of everything else
+    const detailCardsG = mainDiv.append('g').attr('id', 'detailCards');
+    const detailCardGroups = detailCardsG
+      .selectAll('g')
+      .data(this.detailCards)
+      .join('g')
+      .attr('class', 'detail-card-group');
+    detailCardGroups.append('line').attr('class', 'detail-card-leader');
+    const padding = 6;
+    const lineHeight = 16;
+    detailCardGroups
+      .append('g')
+      .attr('class', 'detail-card')
+      .attr(
+        'transform',
+        detailCard => `translate(${detailCard.x},${detailCard.y})`
+      )
+      .each((detailCard, i, cards) => {
+        const card = d3v6.select(cards[i]);
+        const node = nodesById.get(detailCard.nodeId)!;
+        const frame = card.append('rect').attr('class', 'detail-card-frame');
+        // The lines are those of the default tooltip, without its links
+        const tooltipContent = document.createElement('div');
+        tooltipContent.innerHTML = this._getNodeTooltipText(node);
+        const listItems = Array.from(
+          tooltipContent.querySelectorAll('li:not(.tooltip-links)'),
+          listItem => listItem.textContent!.trim()
+        );
+        const lines = [
+          BiowcPathwaygraph._getNodeTitle(node),
+          ...(listItems.length > 0 || tooltipContent.querySelector('ul')
+            ? listItems
+            : [tooltipContent.textContent!.trim()]),
+        ].filter(line => line !== '');
+        const textLengths = lines.map((line, lineIndex) =>
+          card
+            .append('text')
+            .attr(
+              'class',
+              lineIndex === 0 ? 'detail-card-title' : 'detail-card-text'
+            )
+            .attr('x', padding)
+            .attr('y', padding + (lineIndex + 1) * lineHeight - 4)
+            .text(line)
+            .node()!
+            .getComputedTextLength()
+        );
+        // There is room for the close button next to the title
+        let width =
+          textLengths.reduce(
+            (maxLength, textLength, lineIndex) =>
+              Math.max(maxLength, textLength + (lineIndex === 0 ? 16 : 0)),
+            0
+          ) +
+          2 * padding;
+        let height = lines.length * lineHeight + 2 * padding;
+        // The dose-response curve is SVG already, so it goes below the lines as in the tooltip
+        if (node.type === 'ptm' && (<PTMNodeD3>node).doseResponse) {
+          const plot = BiowcPathwaygraph._getDoseResponsePlot(
+            (<PTMNodeD3>node).doseResponse!,
+            220,
+            130
+          );
+          if (plot) {
+            card
+              .append('g')
+              .attr('class', 'detail-card-plot')
+              .attr('transform', `translate(${padding},${height - padding})`)
+              .html(plot);
+            width = Math.max(width, 220 + 2 * padding);
+            height += 130;
+          }
+        }
+        /* eslint-disable no-param-reassign */
+        detailCard.width = width;
+        detailCard.height = height;
+        /* eslint-enable no-param-reassign */
+        frame.attr('width', width).attr('height', height).attr('rx', 4);
+        card
+          .append('text')
+          .attr('class', 'detail-card-close')
+          .attr('x', width - padding)
+          .attr('y', padding + lineHeight - 4)
+          .attr('text-anchor', 'end')
+          .text('×')
+          .on('click', (e: MouseEvent) => {
+            e.stopPropagation();
+            this.unpinDetailCard(detailCard.nodeId);
+          });
+      })
+      .call(
+        d3v6.drag<SVGGElement, DetailCard>().on('drag', (event, detailCard) => {
+          /* eslint-disable no-param-reassign */
+          detailCard.x += event.dx;
+          detailCard.y += event.dy;
+          /* eslint-enable no-param-reassign */
+          detailCardsG
+            .selectAll<SVGGElement, DetailCard>('.detail-card')
+            .filter(otherDetailCard => otherDetailCard === detailCard)
+            .attr('transform', `translate(${detailCard.x},${detailCard.y})`);
+          this._updateDetailCardLeaders();
+        })
+      );
+    this._updateDetailCardLeaders();
+  }
+
+  private _updateDetailCardLeaders() {
+    const transform = d3v6.zoomTransform(this._getMainDiv().node()!);
+    this._getMainDiv()
+      .select('#detailCards')
+      .selectAll<SVGLineElement, DetailCard>('.detail-card-leader')
+      .each((detailCard, i, leaders) => {
+        const leader = d3v6.select(leaders[i]);
+        const node = this.d3Nodes?.find(
+          ({ nodeId }) => nodeId === detailCard.nodeId
+        );
+        // The nodes of collapsed PTMs are not visible, so their cards have no leader
+        if (!node || !node.visible) {
+          leader.attr('display', 'none');
+        } else {
+          const [nodeX, nodeY] = transform.apply([node.x!, node.y!]);
+          // The line ends at the point of the card that is closest to the node
+          leader
+            .attr('display', null)
+            .attr('x1', nodeX)
+            .attr('y1', nodeY)
+            .attr(
+              'x2',
+              Math.min(
+                Math.max(nodeX, detailCard.x),
+                detailCard.x + (detailCard.width || 0)
+              )
+            )
+            .attr(
+              'y2',
+              Math.min(
+                Math.max(nodeY, detailCard.y),
+                detailCard.y + (detailCard.height || 0)
+              )
+            );
+        }
+      });
+  }
+
+  public pinDoseResponsePanel(nodeId: string) {
+    this.pinnedDoseResponseNodeId = nodeId;
+    this._renderDoseResponsePanel();
+  }
+
+  public unpinDoseResponsePanel() {
+    this.pinnedDoseResponseNodeId = undefined;
+    this._renderDoseResponsePanel();
+  }
+
+  private _renderDoseResponsePanel() {
+    const container = d3v6
+      // @ts-ignore
+      .select(this.shadowRoot)
+      .select('#pathwayContainer');
+    container.select('#doseResponsePanel').remove();
+    // The panel disappears with its node, e.g. if the PTM input changes
+    const node = <PTMNodeD3 | undefined>(
+      this.d3Nodes?.find(
+        ({ nodeId }) => nodeId === this.pinnedDoseResponseNodeId
+      )
+    );
+    if (!node?.doseResponse) return;
+
+    const panel = container
+      .append('div')
+      .attr('id', 'doseResponsePanel')
+      .attr('class', 'dose-response-panel');
+    panel
+      .append('button')
+      .attr('class', 'dose-response-panel-close')
+      .attr('aria-label', 'Close')
+      .text('×')
+      .on('click', () => this.unpinDoseResponsePanel());
+    panel
+      .append('div')
+      .attr('class', 'dose-response-panel-title')
+      .text(BiowcPathwaygraph._getNodeTitle(node));
+    panel
+      .append('div')
+      .html(
+        BiowcPathwaygraph._getDoseResponsePlot(node.doseResponse, 300, 180)
+      );
+  }
+
   public expandAllPTMNodes() {
     if (!this.isNodeExpandAndCollapseAllowed) return;
 
@@ -5293,10 +11208,16 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
         this.proteinInputListBackup.length > 0
       )
         this.proteinInputList = this.proteinInputListBackup;
+      if (
+        !!this.metaboliteInputListBackup &&
+        this.metaboliteInputListBackup.length > 0
+      )
+        this.metaboliteInputList = this.metaboliteInputListBackup;
 
       // Clear the backups
       this.ptmInputListBackup = [];
       this.proteinInputListBackup = [];
+      this.metaboliteInputListBackup = [];
     }
 
     if (this.applicationMode === 'editing') {
@@ -5313,8 +11234,10 @@ font-family: "Roboto Light", "Helvetica Neue", "Verdana", sans-serif'><strong st
       // Keep a backup of the input lists to reapply it later
       this.ptmInputListBackup = this.ptmInputList;
       this.proteinInputListBackup = this.proteinInputList;
+      this.metaboliteInputListBackup = this.metaboliteInputList;
       this.ptmInputList = [];
       this.proteinInputList = [];
+      this.metaboliteInputList = [];
       // Remove the legend if it is present
       this._getMainDiv()
         .select<SVGElement>('#pathwayLegend')
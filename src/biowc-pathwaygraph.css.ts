@@ -131,10 +131,36 @@ export default css`
     fill: url(#bidirectional_regulation_pattern);
   }
 
+  .protein-heatmap-cell {
+    fill: #ffffff;
+    stroke: var(--legend-frame-color);
+    stroke-width: 0.5;
+  }
+
+  .protein-heatmap.bars .protein-heatmap-cell {
+    stroke: none;
+  }
+
   .node-rect.compound {
     fill: var(--compound-color);
   }
 
+  .node-rect.compound.down {
+    fill: var(--downregulated-color);
+  }
+
+  .node-rect.compound.up {
+    fill: var(--upregulated-color);
+  }
+
+  .node-rect.compound.not {
+    fill: var(--unregulated-color);
+  }
+
+  .node-rect.compound.both {
+    fill: url(#bidirectional_regulation_pattern);
+  }
+
   .node-rect.edit-highlight {
     stroke-width: 3 !important;
   }
@@ -218,6 +244,88 @@ export default css`
     font-family: var(--font-stack);
   }
 
+  .tooltip a {
+    pointer-events: auto;
+  }
+
+  .dose-response-plot {
+    display: block;
+  }
+
+  .dose-response-axis,
+  .dose-response-ec50 {
+    stroke: var(--legend-frame-color);
+  }
+
+  .dose-response-ec50 {
+    stroke-dasharray: 3 2;
+  }
+
+  .dose-response-tick {
+    font-size: 9px;
+    font-family: var(--font-stack);
+  }
+
+  .dose-response-curve {
+    fill: none;
+    stroke: var(--edge-label-color);
+    stroke-width: 1.5px;
+  }
+
+  .dose-response-point {
+    fill: var(--unregulated-color);
+  }
+
+  .dose-response-panel {
+    position: absolute;
+    top: 10px;
+    right: 10px;
+    background-color: white;
+    border: 1px solid;
+    border-radius: 5px;
+    padding: 5px 8px;
+    font-size: 12pt;
+    font-family: var(--font-stack);
+  }
+
+  .dose-response-panel-close {
+    float: right;
+    border: none;
+    background: none;
+    cursor: pointer;
+  }
+
+  .detail-card {
+    cursor: move;
+  }
+
+  .detail-card-frame {
+    fill: white;
+    stroke: var(--legend-frame-color);
+    stroke-width: 1.5px;
+  }
+
+  .detail-card-leader {
+    stroke: var(--legend-frame-color);
+    stroke-width: 1px;
+    stroke-dasharray: 4 2;
+  }
+
+  .detail-card-title,
+  .detail-card-text,
+  .detail-card-close {
+    font-size: 10pt;
+    font-family: var(--font-stack);
+  }
+
+  .detail-card-title {
+    font-weight: bold;
+  }
+
+  .detail-card-close {
+    cursor: pointer;
+  }
+
   .group-path {
     fill: var(--group-fill-color);
     stroke-width: 1px;
@@ -242,7 +350,7 @@ export default css`
     border-style: dashed;
   }
 
-  #potencyRangeSlider {
+  #colorRangeSlider {
     position: absolute;
     top: 290px;
     left: 20px;
@@ -256,6 +364,43 @@ export default css`
     background: white;
   }
 
+  #regulationThresholdControl {
+    position: absolute;
+    top: 290px;
+    left: 190px;
+    font-size: 11pt;
+    font-family: var(--font-stack);
+    display: grid;
+    grid-template-columns: auto 60px;
+    gap: 4px 10px;
+    align-items: center;
+    margin: 100px auto;
+    background: white;
+  }
+
+  #timepointPlayback {
+    position: absolute;
+    top: 360px;
+    left: 20px;
+    font-size: 11pt;
+    font-family: var(--font-stack);
+    display: flex;
+    align-items: center;
+    gap: 5px;
+    margin: 100px auto;
+    background: white;
+  }
+
+  #timepointPlayback input[type='range'] {
+    position: static;
+    width: 120px;
+    pointer-events: auto;
+  }
+
+  #timepointPlayback output {
+    top: 0;
+  }
+
   input[type='range']::-webkit-slider-thumb {
     -webkit-appearance: none;
     pointer-events: all;
@@ -1,9 +1,15 @@
-import { html } from 'lit';
-import { fixture, expect } from '@open-wc/testing';
+import { html, TemplateResult } from 'lit';
+import { fixture, expect, oneEvent } from '@open-wc/testing';
 import StoryFixtures from './fixtures/StoryFixtures.js';
 import { BiowcPathwaygraph } from '../src/BiowcPathwaygraph.js';
 import '../src/biowc-pathwaygraph.js';
 
+// The node types are not exported, so the tests narrow them down to the properties they check
+type PathwayGraphNodeD3 = NonNullable<BiowcPathwaygraph['d3Nodes']>[number];
+type NodeWithDetails = PathwayGraphNodeD3 & {
+  detailsInternal: { [key: string]: string | number };
+};
+
 // TODO: a11y audit as separate test, needs to wait for the rendering to finish
 
 describe('Simple Skeleton Graph', () => {
@@ -125,6 +131,46 @@ describe('Graph Colored by Fold Change', () => {
   });
 });
 
+describe('Proteins Colored by a Continuous Value', () => {
+  it('fills gene/protein nodes by the given detail and adds a legend section', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.proteinExpressionFixture.nodes,
+          links: StoryFixtures.proteinExpressionFixture.links,
+        }}"
+        .proteinInputList="${StoryFixtures.proteinExpressionFixture
+          .proteinInputList}"
+        .hue="${'foldchange'}"
+      ></biowc-pathwaygraph>`
+    );
+    const getFill = (nodeId: string) =>
+      el.shadowRoot!.querySelector<SVGRectElement>(
+        `#node-${nodeId} rect.node-rect`
+      )!.style.fill;
+
+    // Without a proteinColorKey, the regulation category decides the color
+    expect(getFill('1')).to.equal('');
+
+    el.proteinColorKey = 'Fold Change';
+    await el.updateComplete;
+    expect(el.maxPosProteinValue).to.equal(3);
+    expect(getFill('1')).to.not.equal('');
+    // The values of the two entries mapped to Protein B are averaged
+    expect(getFill('2')).to.not.equal('');
+    expect(getFill('2')).to.not.equal(getFill('1'));
+    // Protein C has no data
+    expect(getFill('3')).to.equal('');
+    expect(
+      Array.from(
+        el.shadowRoot!.querySelectorAll('#pathwayLegend text.legend'),
+        text => text.textContent
+      )
+    ).to.include('Protein Fold Change:');
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
 describe('Graph Colored by Potency', () => {
   it('can be rendered and passes the a11y audit', async () => {
     const el = await fixture<BiowcPathwaygraph>(
@@ -142,6 +188,91 @@ describe('Graph Colored by Potency', () => {
   });
 });
 
+describe('Custom Hue Mode', () => {
+  it('colors the PTMs by a registered mode and generates legend and slider from it', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.ptmGraphWithDetailsFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    el.registerHueMode({
+      id: 'significance',
+      label: 'Significance',
+      legendTitle: 'p Value',
+      detailKey: 'p Value',
+      scaleType: 'sequential',
+      logTransform: true,
+      colors: 'cividis',
+      rangeSlider: true,
+    });
+    el.hue = 'significance';
+    await el.updateComplete;
+
+    expect(el.colorRangeMin).to.be.closeTo(-4, 1e-9);
+    expect(el.colorRangeMax).to.be.at.most(-3);
+    const ptmFills = Array.from(
+      el.shadowRoot!.querySelectorAll<SVGRectElement>('rect.node-rect.ptm'),
+      rect => rect.style.fill
+    );
+    expect(ptmFills).to.not.include('');
+    expect(new Set(ptmFills).size).to.be.above(1);
+    expect(
+      Array.from(
+        el.shadowRoot!.querySelectorAll('#pathwayLegend text.legend'),
+        text => text.textContent
+      )
+    ).to.include('log10 p Value:');
+    expect(
+      el.shadowRoot!.querySelector<HTMLDivElement>('#colorRangeSlider')!.style
+        .visibility
+    ).to.equal('visible');
+    expect(
+      el.shadowRoot!.querySelector('#colorRangeSliderLabel')!.textContent
+    ).to.equal('log10 p Value Range:');
+
+    // Without the slider, e.g. by direction, it is hidden again
+    el.hue = 'direction';
+    await el.updateComplete;
+    expect(
+      el.shadowRoot!.querySelector<HTMLDivElement>('#colorRangeSlider')!.style
+        .visibility
+    ).to.equal('hidden');
+
+    // A diverging domain on one side of the center colors values on the other side like the center
+    el.registerHueMode({
+      id: 'score',
+      label: 'Score',
+      detailKey: 'Score',
+      scaleType: 'diverging',
+      domain: [1, 3],
+      colors: ['#0000ff', '#ffffff', '#ff0000'],
+    });
+    el.ptmInputList = [-1, 0, 3].map(score => ({
+      geneNames: ['Protein B'],
+      details: { Site: `S${score + 2}`, Score: score },
+    }));
+    el.hue = 'score';
+    await el.updateComplete;
+    const getScoreFill = (score: number) =>
+      el.shadowRoot!.querySelector<SVGRectElement>(
+        `#node-${
+          el.d3Nodes!.find(
+            node =>
+              (<Partial<NodeWithDetails>>node).detailsInternal?.Score === score
+          )!.nodeId
+        } rect.node-rect`
+      )!.style.fill;
+    expect(getScoreFill(0)).to.equal('rgb(255, 255, 255)');
+    expect(getScoreFill(-1)).to.equal(getScoreFill(0));
+    expect(getScoreFill(3)).to.equal('rgb(255, 0, 0)');
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
 describe('BiowcPathwaygraph', () => {
   it('can be rendered and passes the a11y audit', async () => {
     const el = await fixture<BiowcPathwaygraph>(
@@ -159,3 +290,1403 @@ describe('BiowcPathwaygraph', () => {
     await expect(el).shadowDom.to.be.accessible();
   });
 });
+
+describe('Graph Imported from KGML', () => {
+  it('converts entries, relations and reactions', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{ nodes: [], links: [] }}"
+      ></biowc-pathwaygraph>`
+    );
+    el.importKgml(StoryFixtures.kgmlFixture.kgml);
+    await el.updateComplete;
+
+    expect(el.graphdataSkeleton.nodes.map(node => node.type)).to.deep.equal([
+      'gene_protein',
+      'gene_protein',
+      'gene_protein',
+      'compound',
+      'pathway',
+      'group',
+    ]);
+    expect(el.graphdataSkeleton.nodes[0]).to.include({ x: 50, y: 50 });
+    expect(el.graphdataSkeleton.links[0]).to.deep.include({
+      sourceId: '1',
+      targetId: '2',
+      types: ['activation'],
+      label: '+p',
+    });
+    expect(el.graphdataSkeleton.links).to.have.length(4);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+
+  it('exports entries and relations that can be imported again', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{ nodes: [], links: [] }}"
+      ></biowc-pathwaygraph>`
+    );
+    el.importKgml(StoryFixtures.kgmlFixture.kgml);
+    await el.updateComplete;
+    const kgml = el.exportKgml('path:hsa04010', 'MAPK signaling pathway');
+
+    const reimported = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{ nodes: [], links: [] }}"
+      ></biowc-pathwaygraph>`
+    );
+    reimported.importKgml(kgml);
+    await reimported.updateComplete;
+
+    // Compounds keep their KEGG ids
+    expect(
+      (<{ keggIds?: string[] }>(
+        reimported.graphdataSkeleton.nodes.find(
+          node => node.type === 'compound'
+        )
+      )).keggIds
+    ).to.deep.equal(['C00001']);
+    expect(kgml).to.not.match(/name="undefined" type="(gene|compound|map)"/);
+
+    expect(
+      reimported.graphdataSkeleton.nodes.map(node => [node.nodeId, node.type])
+    ).to.have.deep.members(
+      el.graphdataSkeleton.nodes.map(node => [node.nodeId, node.type])
+    );
+    // Reactions come back as relations, but connect the same entries
+    expect(
+      reimported.graphdataSkeleton.links.map(link => [
+        link.sourceId,
+        link.targetId,
+        link.types,
+        link.label,
+      ])
+    ).to.have.deep.members(
+      el.graphdataSkeleton.links.map(link => [
+        link.sourceId,
+        link.targetId,
+        link.types,
+        link.label,
+      ])
+    );
+  });
+});
+
+describe('Graph Imported from GPML', () => {
+  it('converts data nodes, groups, interactions and anchors', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{ nodes: [], links: [] }}"
+      ></biowc-pathwaygraph>`
+    );
+    el.importGpml(StoryFixtures.gpmlFixture.gpml);
+    await el.updateComplete;
+
+    const { nodes, links } = el.graphdataSkeleton;
+    expect(nodes.map(node => node.nodeId)).to.deep.equal([
+      'group1',
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+    expect(nodes[1]).to.deep.include({
+      geneNames: ['Protein A'],
+      uniprotAccs: ['P12345'],
+    });
+    expect(nodes[2]).to.deep.include({
+      geneNames: ['Protein B', 'GENEB'],
+      groupId: 'group1',
+    });
+    expect(nodes[4]).to.include({ type: 'compound', label: 'Compound X' });
+    // The dangling interaction is dropped, the anchored one ends on the other interaction
+    expect(links).to.deep.equal([
+      { linkId: 'i1', sourceId: 'a', targetId: 'b', types: ['activation'] },
+      { linkId: 'i2', sourceId: 'd', targetId: 'i1', types: ['inhibition'] },
+    ]);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+
+  it('exports nodes, groups and anchored interactions that can be imported again', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{ nodes: [], links: [] }}"
+      ></biowc-pathwaygraph>`
+    );
+    el.importGpml(StoryFixtures.gpmlFixture.gpml);
+    await el.updateComplete;
+    const gpml = el.exportGpml('Exported Pathway');
+    expect(
+      new DOMParser().parseFromString(gpml, 'text/xml').documentElement
+        .namespaceURI
+    ).to.equal('http://pathvisio.org/GPML/2021');
+
+    const reimported = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{ nodes: [], links: [] }}"
+      ></biowc-pathwaygraph>`
+    );
+    reimported.importGpml(gpml);
+    await reimported.updateComplete;
+
+    const { nodes, links } = reimported.graphdataSkeleton;
+    expect(nodes.map(node => node.nodeId).sort()).to.deep.equal([
+      'a',
+      'b',
+      'c',
+      'd',
+      'group1',
+    ]);
+    expect(nodes.find(node => node.nodeId === 'b')).to.deep.include({
+      groupId: 'group1',
+    });
+    expect(links).to.deep.equal([
+      { linkId: 'i1', sourceId: 'a', targetId: 'b', types: ['activation'] },
+      { linkId: 'i2', sourceId: 'd', targetId: 'i1', types: ['inhibition'] },
+    ]);
+  });
+});
+
+describe('Graph Imported from SBGN-ML', () => {
+  it('converts glyphs, processes and modulations', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{ nodes: [], links: [] }}"
+      ></biowc-pathwaygraph>`
+    );
+    el.importSbgn(StoryFixtures.sbgnFixture.sbgn);
+    await el.updateComplete;
+
+    const { nodes, links } = el.graphdataSkeleton;
+    expect(nodes.map(node => [node.nodeId, node.type])).to.deep.equal([
+      ['raf', 'gene_protein'],
+      ['mek', 'gene_protein'],
+      ['mek-p', 'gene_protein'],
+      ['atp', 'compound'],
+      ['cplx', 'group'],
+      ['grb2', 'gene_protein'],
+      ['sos1', 'gene_protein'],
+    ]);
+    expect(nodes[0]).to.include({ x: 30, y: 15 });
+    expect(nodes[5]).to.deep.include({ geneNames: ['GRB2'], groupId: 'cplx' });
+    // The process becomes a link, and the catalysis is anchored on it
+    expect(links).to.deep.equal([
+      {
+        linkId: 'a4',
+        sourceId: 'atp',
+        targetId: 'grb2',
+        types: ['inhibition'],
+      },
+      { linkId: 'pn1-1', sourceId: 'mek', targetId: 'mek-p', types: ['other'] },
+      {
+        linkId: 'pn1-modulation-1',
+        sourceId: 'raf',
+        targetId: 'pn1-1',
+        types: ['activation'],
+      },
+    ]);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+
+  it('exports the graph as an Activity Flow map', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.nodeTypesFixture.nodes,
+          links: StoryFixtures.nodeTypesFixture.links,
+        }}"
+      ></biowc-pathwaygraph>`
+    );
+    const sbgn = new DOMParser().parseFromString(el.exportSbgn(), 'text/xml');
+
+    expect(sbgn.documentElement.localName).to.equal('sbgn');
+    expect(
+      sbgn.getElementsByTagName('map')[0].getAttribute('language')
+    ).to.equal('activity flow');
+    const glyphClasses = Object.fromEntries(
+      Array.from(sbgn.getElementsByTagName('glyph')).map(glyph => [
+        glyph.getAttribute('id'),
+        glyph.getAttribute('class'),
+      ])
+    );
+    expect(glyphClasses).to.include({
+      '1': 'biological activity',
+      '2': 'biological activity',
+      '2-unit-of-information': 'unit of information',
+      '6': 'submap',
+    });
+
+    // Before the graph is drawn, the exports are empty
+    const unrendered = <BiowcPathwaygraph>(
+      document.createElement('biowc-pathwaygraph')
+    );
+    expect(
+      new DOMParser()
+        .parseFromString(unrendered.exportSbgn(), 'text/xml')
+        .getElementsByTagName('glyph')
+    ).to.have.length(0);
+    expect(
+      new DOMParser()
+        .parseFromString(unrendered.exportKgml('path:ko00000', ''), 'text/xml')
+        .getElementsByTagName('entry')
+    ).to.have.length(0);
+  });
+});
+
+describe('PTM Input Imported from a Table', () => {
+  it('converts the rows of a MaxQuant sites table', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+      ></biowc-pathwaygraph>`
+    );
+    const ptmInputList = el.importPtmTable(
+      StoryFixtures.maxquantSitesFixture.table,
+      'maxquant',
+      { foldChange: 'log2FC', upstreamKinases: 'Kinases' }
+    );
+    await el.updateComplete;
+
+    // The decoy row is skipped
+    expect(ptmInputList).to.have.length(2);
+    expect(ptmInputList[0]).to.deep.equal({
+      geneNames: ['Protein A'],
+      uniprotAccs: ['P12345', 'P12345-2'],
+      details: {
+        Site: 'S42',
+        'Modified Sequence': 'TRS(0.98)AGAINK',
+        'Log Fold Change': -1.5,
+        'Upstream Kinase(s)': 'GeneA, Protein D',
+        'Localization prob': 0.98,
+      },
+    });
+    expect(el.ptmInputList).to.equal(ptmInputList);
+    expect(() =>
+      el.importPtmTable(StoryFixtures.maxquantSitesFixture.table, 'maxquant', {
+        potency: 'pEC50',
+      })
+    ).to.throw("column 'pEC50' not found");
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Regulation Derived from Statistics', () => {
+  it('classifies entries by thresholds and re-evaluates them on change', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.regulationStatisticsFixture
+          .ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    const getRegulations = () =>
+      el
+        .graphdataPTM!.nodes.filter(node => node.type === 'ptm')
+        .map(node => node.regulation);
+
+    // By default, |log fold change| > 1 and p < 0.05
+    expect(getRegulations()).to.deep.equal(['down', 'up', 'not', 'up']);
+
+    el.regulationThresholds = { foldChangeCutoff: 2 };
+    await el.updateComplete;
+    expect(getRegulations()).to.deep.equal(['not', 'up', 'not', 'not']);
+
+    // The volcano curve demands a smaller p-value close to the fold change cut-off
+    el.regulationThresholds = { foldChangeCutoff: 1, volcanoCurvature: 1 };
+    await el.updateComplete;
+    expect(getRegulations()).to.deep.equal(['down', 'up', 'not', 'not']);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Graph with Multiple Conditions', () => {
+  it('shows the values of the active condition', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.multiConditionFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    const getPTMNodes = () =>
+      el.graphdataPTM!.nodes.filter(node => node.type === 'ptm');
+    const getLegendText = () =>
+      el.shadowRoot!.querySelector('#pathwayLegend')!.textContent;
+
+    // The first condition is active by default
+    expect(getPTMNodes().map(node => node.regulation)).to.deep.equal([
+      'up',
+      'not',
+    ]);
+    expect(getLegendText()).to.include('Condition: 1h');
+
+    el.activeCondition = '4h';
+    await el.updateComplete;
+    expect(getPTMNodes().map(node => node.regulation)).to.deep.equal([
+      'not',
+      'down',
+    ]);
+    expect(getLegendText()).to.include('Condition: 4h');
+    // Every PTM node knows its values in all conditions, for the split view
+    expect(
+      getPTMNodes().map(node =>
+        Object.values(
+          (<{ conditions: { [key: string]: { regulation: string } } }>node)
+            .conditions
+        ).map(condition => condition.regulation)
+      )
+    ).to.deep.equal([
+      ['up', 'not'],
+      ['not', 'down'],
+    ]);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Protein Heatmap Strips', () => {
+  it('shows one cell per condition under the protein nodes', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .proteinInputList="${StoryFixtures.multiConditionFixture.ptmInputList}"
+        .proteinHeatmap="${{}}"
+      ></biowc-pathwaygraph>`
+    );
+    const getCells = (nodeId: string) =>
+      Array.from(
+        el.shadowRoot!.querySelectorAll<SVGRectElement>(
+          `#node-${nodeId} .protein-heatmap-cell`
+        )
+      );
+
+    // The cells share one color scale across all nodes and conditions
+    expect(el.maxPosProteinValue).to.equal(1.5);
+    expect(el.maxNegProteinValue).to.equal(-2);
+    const cells = getCells('1');
+    expect(cells).to.have.length(2);
+    expect(cells[0].style.fill).to.not.equal('');
+    expect(cells[0].style.fill).to.not.equal(cells[1].style.fill);
+    expect(
+      el.shadowRoot!.querySelector('#pathwayLegend')!.textContent
+    ).to.include('Protein Log Fold Change:');
+
+    // The colors of the cells survive the export
+    const fillBeforeExport = cells[0].style.fill;
+    await el.toBlob();
+    expect(getCells('1')[0].style.fill).to.equal(fillBeforeExport);
+
+    // As bars, the largest deviation from the center fills the whole height
+    el.proteinHeatmap = { style: 'bars' };
+    await el.updateComplete;
+    expect(
+      getCells('2').map(cell => Number(cell.getAttribute('height')))
+    ).to.deep.equal([3, 12]);
+
+    // With samples as cells, the cells and their color scale follow the active condition
+    el.proteinHeatmap = { detailKeys: ['Log Fold Change'] };
+    el.activeCondition = '1h';
+    await el.updateComplete;
+    expect([el.maxNegProteinValue, el.maxPosProteinValue]).to.deep.equal([
+      -0.5, 1.5,
+    ]);
+    el.activeCondition = '4h';
+    await el.updateComplete;
+    expect(
+      (<PathwayGraphNodeD3 & { heatmapValues: { [key: string]: number[] } }>(
+        el.d3Nodes!.find(node => node.nodeId === '2')
+      )).heatmapValues
+    ).to.deep.equal({ 'Log Fold Change': [-2] });
+    expect(el.maxNegProteinValue).to.equal(-2);
+    expect(el.maxPosProteinValue).to.be.closeTo(0.1, 1e-9);
+
+    // Below the minimal zoom level, the strips are collapsed
+    el.proteinHeatmap = { minZoom: 2 };
+    await el.updateComplete;
+    expect(
+      el.shadowRoot!.querySelector('.protein-heatmap')!.getAttribute('display')
+    ).to.equal('none');
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Kinase Activity Inference', () => {
+  it('scores kinases by the fold changes of their substrates', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.kinaseActivityFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    type KinaseNode = PathwayGraphNodeD3 & {
+      kinaseActivity?: {
+        method: string;
+        score: number;
+        pValue: number;
+        nSubstrates: number;
+      };
+    };
+    const getKinaseNode = () =>
+      <KinaseNode>el.d3Nodes!.find(node => node.nodeId === '1');
+    const getPerturbedNodes = () =>
+      el.shadowRoot!.querySelectorAll('rect.node-rect.gene_protein.circle-up');
+
+    // Scoring is off unless requested
+    expect(getKinaseNode().kinaseActivity).to.equal(undefined);
+    expect(getPerturbedNodes().length).to.equal(0);
+
+    el.kinaseActivityScoring = {};
+    await el.updateComplete;
+    const kseaScore = getKinaseNode().kinaseActivity!;
+    expect(kseaScore.method).to.equal('ksea');
+    expect(kseaScore.nSubstrates).to.equal(3);
+    expect(kseaScore.score).to.be.closeTo(2.18, 0.01);
+    expect(kseaScore.pValue).to.be.closeTo(0.03, 0.005);
+    expect(getPerturbedNodes().length).to.equal(1);
+
+    el.kinaseActivityScoring = { method: 'mean' };
+    await el.updateComplete;
+    const meanScore = getKinaseNode().kinaseActivity!;
+    // The mean of 2.5 relative to the mean of all eight PTMs, 0.95
+    expect(meanScore.score).to.be.closeTo(1.55, 1e-9);
+    expect(meanScore.pValue).to.be.below(0.05);
+
+    // Too few substrates
+    el.kinaseActivityScoring = { minSubstrates: 4 };
+    await el.updateComplete;
+    expect(getKinaseNode().kinaseActivity).to.equal(undefined);
+    expect(getPerturbedNodes().length).to.equal(0);
+
+    // Substrates that are up, but much less so than everything else, make the kinase less active
+    el.ptmInputList = [
+      ...[0.1, 0, 0.2].map((foldChange, i) => ({
+        geneNames: ['Protein B'],
+        details: {
+          Site: `S${i + 1}`,
+          'Log Fold Change': foldChange,
+          'Upstream Kinase(s)': 'Protein A',
+        },
+      })),
+      ...[3, 2.5, 3.5, 2, 3].map((foldChange, i) => ({
+        geneNames: ['Protein A'],
+        details: { Site: `T${i + 1}`, 'Log Fold Change': foldChange },
+      })),
+    ];
+    el.kinaseActivityScoring = { method: 'mean' };
+    await el.updateComplete;
+    expect(getKinaseNode().kinaseActivity!.score).to.be.below(0);
+    expect(getPerturbedNodes().length).to.equal(0);
+    expect(
+      el.shadowRoot!.querySelectorAll('rect.node-rect.gene_protein.circle-down')
+    ).to.have.length(1);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Kinase-Substrate Relationships', () => {
+  it('links kinases to matching sites and filters the links', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.kinaseSubstrateFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    const getKinaseSubstrateLinks = () =>
+      el.d3Links!.filter(link => link.types.includes('kinaseSubstrateLink'));
+
+    const phosphositeplusRelationships = el.importKinaseSubstrateTable(
+      StoryFixtures.kinaseSubstrateFixture.phosphositeplusTable,
+      'phosphositeplus'
+    );
+    expect(phosphositeplusRelationships).to.deep.equal([
+      {
+        kinase: 'GeneA',
+        substrate: 'P12345',
+        site: 'S42',
+        source: 'PhosphoSitePlus',
+      },
+      {
+        kinase: 'GeneA',
+        substrate: 'P12345',
+        site: 'T7',
+        source: 'PhosphoSitePlus',
+      },
+    ]);
+    await el.updateComplete;
+    // Only S42 was measured
+    expect(getKinaseSubstrateLinks().map(link => link.targetId)).to.deep.equal([
+      'ptm-2_0',
+    ]);
+
+    // Relationships from several sources are merged into one link per kinase and site
+    el.kinaseSubstrateRelationships = [
+      ...phosphositeplusRelationships,
+      ...el.importKinaseSubstrateTable(
+        StoryFixtures.kinaseSubstrateFixture.omnipathTable,
+        'omnipath'
+      ),
+    ];
+    await el.updateComplete;
+    expect(
+      getKinaseSubstrateLinks().map(link => ({
+        sourceId: link.sourceId,
+        targetId: link.targetId,
+        sources: link.sources,
+        score: link.score,
+      }))
+    ).to.deep.equal([
+      {
+        sourceId: '1',
+        targetId: 'ptm-2_0',
+        sources: ['PhosphoSitePlus', 'SIGNOR', 'PhosphoSite'],
+        score: 3,
+      },
+      {
+        sourceId: '1',
+        targetId: 'ptm-2_1',
+        sources: ['SIGNOR'],
+        score: 1,
+      },
+    ]);
+
+    // Show all links, then filter them
+    el.expandAllPTMNodes();
+    const visibilityMap = el.contextMenuStore!.get(
+      'kinase-substrate-relationship-visibility-map'
+    );
+    getKinaseSubstrateLinks().forEach(link => {
+      visibilityMap[`${link.sourceId},${link.targetId}`] = true;
+    });
+    const getVisibleLinkCount = () =>
+      el.shadowRoot!.querySelectorAll(
+        'line.kinaseSubstrateLink[visibility="visible"]'
+      ).length;
+
+    el.kinaseSubstrateLinkFilter = { minScore: 2 };
+    await el.updateComplete;
+    expect(getVisibleLinkCount()).to.equal(1);
+
+    el.kinaseSubstrateLinkFilter = { sources: ['SIGNOR'] };
+    await el.updateComplete;
+    expect(getVisibleLinkCount()).to.equal(2);
+
+    el.kinaseSubstrateLinkFilter = { sources: ['PhosphoSitePlus'] };
+    await el.updateComplete;
+    expect(getVisibleLinkCount()).to.equal(1);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Raster Export', () => {
+  it('renders the diagram as PNG at the requested scale', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.simplePTMGraphFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    const svg = el.shadowRoot!.querySelector('svg')!;
+    const canvas = el.shadowRoot!.querySelector('canvas')!;
+
+    const blob = await el.toBlob({ scale: 3 });
+    expect(blob.type).to.equal('image/png');
+    expect(canvas.width).to.equal(
+      Math.ceil(Number(svg.getAttribute('width')) * 3)
+    );
+
+    const dataUrl = await el.toDataURL({
+      scale: 1,
+      background: 'transparent',
+      includeLegend: false,
+    });
+    expect(dataUrl.startsWith('data:image/png;base64,')).to.equal(true);
+    expect(canvas.width).to.equal(Math.ceil(Number(svg.getAttribute('width'))));
+    // The legend is only hidden during the export
+    expect(
+      el.shadowRoot!.querySelector('#pathwayLegend')!.getAttribute('display')
+    ).to.equal(null);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('PDF Export', () => {
+  it('writes the diagram as vector PDF', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.linkTypesFixture.nodes,
+          links: StoryFixtures.linkTypesFixture.links,
+        }}"
+      ></biowc-pathwaygraph>`
+    );
+
+    const pdf = await el
+      .toPdfBlob({ pageSize: 'A4', orientation: 'landscape' })
+      .text();
+    expect(pdf.startsWith('%PDF-1.4')).to.equal(true);
+    expect(pdf.trim().endsWith('%%EOF')).to.equal(true);
+    expect(pdf).to.include('/MediaBox [0 0 841.89 595.28]');
+    // Text stays text
+    expect(pdf).to.include(`(${el.d3Nodes![0].currentDisplayedLabel}) Tj`);
+
+    // Without a page size, the page has the size of the diagram
+    const svg = el.shadowRoot!.querySelector('svg')!;
+    const fittedPdf = await el.toPdfBlob({ margin: 0 }).text();
+    expect(fittedPdf).to.include(
+      `/MediaBox [0 0 ${Number(
+        (Number(svg.getAttribute('width')) * 0.75).toFixed(3)
+      )} ${Number((Number(svg.getAttribute('height')) * 0.75).toFixed(3))}]`
+    );
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Network Export', () => {
+  it('writes the graph with its data to Cytoscape.js, CX2 and GraphML', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.ptmGraphWithDetailsFixture.ptmInputList}"
+        .perturbedNodes="${{ up: ['Protein B'], down: [], undirected: [] }}"
+      ></biowc-pathwaygraph>`
+    );
+
+    type CytoscapeElement = {
+      data: { [key: string]: string | number };
+      position?: { x: number; y: number };
+    };
+    const cytoscapeJs: {
+      elements: { nodes: CytoscapeElement[]; edges: CytoscapeElement[] };
+    } = JSON.parse(el.exportCytoscapeJs());
+    const cytoscapeNodes = cytoscapeJs.elements.nodes;
+    expect(cytoscapeNodes.map(node => node.data.id)).to.deep.equal(
+      el.d3Nodes!.map(node => node.nodeId)
+    );
+    const geneProteinNode = cytoscapeNodes.find(node => node.data.id === '2')!;
+    expect(geneProteinNode.data).to.include({
+      type: 'gene_protein',
+      regulation: 'not',
+      nNot: 1,
+      perturbation: 'up',
+      uniprotAccs: 'P12345',
+    });
+    const d3Node = el.d3Nodes!.find(node => node.nodeId === '2')!;
+    expect(geneProteinNode.position).to.deep.equal({
+      x: Number(d3Node.x.toFixed(1)),
+      y: Number(d3Node.y.toFixed(1)),
+    });
+    const ptmNode = cytoscapeNodes.find(
+      node => node.data.type === 'ptm' && node.data.geneProteinNodeId === '2'
+    )!;
+    expect(ptmNode.data).to.include({
+      regulation: 'not',
+      foldChange: 2.5,
+      Site: 'Y512',
+    });
+    expect(
+      cytoscapeJs.elements.edges.find(edge => edge.data.id === 'relation-1')!
+        .data
+    ).to.include({ source: '1', target: '2' });
+
+    // CX2 uses numeric ids and declares the type of every attribute
+    type Cx2Element = {
+      id: number;
+      s?: number;
+      t?: number;
+      v: { [key: string]: string | number };
+    };
+    const cx2: {
+      CXVersion?: string;
+      hasFragments?: boolean;
+      nodes?: Cx2Element[];
+      edges?: Cx2Element[];
+      attributeDeclarations?: {
+        nodes: { [key: string]: { d: string } };
+      }[];
+    }[] = JSON.parse(el.exportCx2());
+    const cx2Nodes = cx2.find(aspect => aspect.nodes)!.nodes!;
+    const cx2Edges = cx2.find(aspect => aspect.edges)!.edges!;
+    const declarations = cx2.find(aspect => aspect.attributeDeclarations)!
+      .attributeDeclarations![0];
+    expect(cx2[0]).to.deep.equal({ CXVersion: '2.0', hasFragments: false });
+    expect(cx2Nodes).to.have.length(cytoscapeNodes.length);
+    expect(declarations.nodes.foldChange).to.deep.equal({ d: 'double' });
+    expect(declarations.nodes.Site).to.deep.equal({ d: 'string' });
+    const relation = cx2Edges.find(edge => edge.v.linkId === 'relation-1')!;
+    expect(cx2Nodes[relation.s!].v.nodeId).to.equal('1');
+    expect(cx2Nodes[relation.t!].v.nodeId).to.equal('2');
+
+    const graphml = new DOMParser().parseFromString(
+      el.exportGraphml(),
+      'text/xml'
+    );
+    expect(graphml.getElementsByTagName('node')).to.have.length(
+      cytoscapeNodes.length
+    );
+    const xKey = Array.from(graphml.getElementsByTagName('key')).find(
+      key => key.getAttribute('attr.name') === 'x'
+    )!;
+    const xData = Array.from(
+      graphml.querySelector('node[id="2"]')!.getElementsByTagName('data')
+    ).find(data => data.getAttribute('key') === xKey.getAttribute('id'))!;
+    expect(xData.textContent).to.equal(String(geneProteinNode.position!.x));
+  });
+});
+
+describe('Metabolite Data on Compound Nodes', () => {
+  it('maps metabolites by name and identifiers and colors the compounds', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.metaboliteFixture.nodes,
+          links: StoryFixtures.metaboliteFixture.links,
+        }}"
+        .metaboliteInputList="${StoryFixtures.metaboliteFixture
+          .metaboliteInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    // Compounds without mapped metabolites have no details
+    const getCompoundNode = (nodeId: string) =>
+      <Partial<NodeWithDetails>>(
+        el.d3Nodes!.find(node => node.nodeId === nodeId)
+      );
+
+    // The name is matched regardless of case, the identifiers regardless of their prefix and format
+    expect(getCompoundNode('2')).to.include({ nUp: 2, nDown: 0 });
+    expect(getCompoundNode('2').detailsInternal).to.deep.equal({
+      'Log Fold Change': '1.5,0.5',
+    });
+    expect(getCompoundNode('3')).to.include({ nUp: 0, nDown: 1 });
+    expect(getCompoundNode('4').detailsInternal).to.equal(undefined);
+    expect(
+      el.shadowRoot!.querySelectorAll('rect.node-rect.compound.up')
+    ).to.have.length(1);
+    expect(
+      el.shadowRoot!.querySelectorAll('rect.node-rect.compound.down')
+    ).to.have.length(1);
+
+    // By fold change, a compound gets its color from the same scale as the PTMs
+    el.hue = 'foldchange';
+    await el.updateComplete;
+    const glucoseRect = el.shadowRoot!.querySelector<SVGRectElement>(
+      '#node-3 rect.node-rect'
+    )!;
+    expect(glucoseRect.style.fill).to.not.equal('');
+    // The export keeps that color, instead of the fill from the stylesheet
+    const glucoseFill = glucoseRect.style.fill;
+    await el.toDataURL();
+    expect(glucoseRect.style.fill).to.equal(glucoseFill);
+
+    el.shadowRoot!.querySelector('#node-3')!.dispatchEvent(
+      new MouseEvent('click')
+    );
+    const { detail: selectionDetails } = await oneEvent(el, 'selectionDetails');
+    expect(selectionDetails.selection_metabolite).to.deep.equal([
+      {
+        Regulation: 'down',
+        Compound: 'Glucose',
+        '#Up': 0,
+        '#Down': 1,
+        '#Not': 0,
+        'Log Fold Change': -2,
+        'p Value': 0.001,
+      },
+    ]);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Peptide Table Export', () => {
+  it('writes the chosen details of the mapped peptides', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.ptmGraphWithDetailsFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    const nPTMNodes = el.d3Nodes!.filter(node => node.type === 'ptm').length;
+
+    const defaultTable = el.exportPeptideTable().split('\r\n');
+    expect(defaultTable[0]).to.equal(
+      'Modified Sequence,Gene Name(s),Uniprot,Experiment,Regulation'
+    );
+    expect(defaultTable).to.have.length(nPTMNodes + 1);
+
+    const customTable = el
+      .exportPeptideTable({
+        columns: ['Sequence', 'Site', 'Upstream Kinase(s)'],
+        delimiter: ';',
+        includeRegulation: false,
+        includeMappedNode: true,
+      })
+      .split('\r\n');
+    expect(customTable[0]).to.equal(
+      'Sequence;Site;Upstream Kinase(s);Pathway Node ID;Pathway Node'
+    );
+    expect(customTable).to.include(
+      `GILGVIVT(ph)LK;Y512;Protein B, Protein C;2;${
+        el.d3Nodes!.find(node => node.nodeId === '2')!.currentDisplayedLabel
+      }`
+    );
+
+    // Values that contain the delimiter are quoted
+    expect(
+      el.exportPeptideTable({ columns: ['Upstream Kinase(s)'] })
+    ).to.include('"Protein B, Protein C",not');
+    expect(
+      el.exportPeptideTable({ columns: 'all' }).split('\r\n')[0]
+    ).to.include('Fold Change');
+  });
+
+  it('writes only the header if no peptides are mapped', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+      ></biowc-pathwaygraph>`
+    );
+    expect(el.exportPeptideTable({ delimiter: '\t' })).to.equal(
+      'Modified Sequence\tGene Name(s)\tUniprot\tExperiment\tRegulation'
+    );
+    expect(el.toPeptideTableBlob({ delimiter: '\t' }).type).to.equal(
+      'text/tab-separated-values'
+    );
+  });
+});
+
+describe('Mapping Report', () => {
+  it('lists unmapped, ambiguous and isoform-stripped entries', async () => {
+    let reportFromEvent;
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${[
+          { geneNames: ['Unknown Protein'], regulation: 'up' },
+          { uniprotAccs: ['P12345-2'], regulation: 'down' },
+          { geneNames: ['Protein A', 'Protein B'], regulation: 'not' },
+        ]}"
+        @mappingReport="${(e: CustomEvent) => {
+          reportFromEvent = e.detail;
+        }}"
+      ></biowc-pathwaygraph>`
+    );
+
+    const report = el.getMappingReport();
+    expect(reportFromEvent).to.equal(report);
+    expect(report.ptmInput.unmapped.map(entry => entry.index)).to.deep.equal([
+      0,
+    ]);
+    expect(report.ptmInput.mappedToMultipleNodes).to.deep.equal([
+      {
+        index: 2,
+        geneNames: ['Protein A', 'Protein B'],
+        uniprotAccs: [],
+        nodeIds: ['1', '2'],
+        routes: { '1': 'geneName', '2': 'geneName' },
+        strippedIsoforms: [],
+      },
+    ]);
+    expect(
+      report.ptmInput.mappedViaIsoformStripping.map(
+        entry => entry.strippedIsoforms
+      )
+    ).to.deep.equal([['P12345-2']]);
+    expect(report.ptmInput.nodeCounts).to.deep.equal({ '1': 1, '2': 2 });
+    expect(report.proteinInput.unmapped).to.deep.equal([]);
+  });
+
+  it('maps aliases, orthologs and other identifiers via the identifierMapping', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${[
+          { geneNames: ['genea'], regulation: 'up' },
+          { geneNames: ['Prot-b'], regulation: 'down' },
+          { identifiers: ['ENSMUSG00000001'], regulation: 'not' },
+          { geneNames: ['Protein A'], regulation: 'up' },
+        ]}"
+        .identifierMapping="${{
+          table: { 'prot-B': 'Protein B' },
+          resolver: (identifier: string) =>
+            identifier.startsWith('ENSMUSG') ? ['P12345'] : undefined,
+          caseInsensitive: true,
+        }}"
+      ></biowc-pathwaygraph>`
+    );
+
+    const report = el.getMappingReport().ptmInput;
+    expect(report.unmapped).to.deep.equal([]);
+    expect(report.nodeCounts).to.deep.equal({ '1': 2, '2': 2 });
+    expect(report.nodeRoutes).to.deep.equal({
+      '1': ['caseInsensitive', 'geneName'],
+      '2': ['identifierMapping'],
+    });
+    expect(
+      el.d3Nodes!.filter(
+        node => node.type === 'ptm' && node.nodeId.startsWith('ptm-2_')
+      )
+    ).to.have.length(2);
+
+    // Without case-insensitive matching, the lower case gene name and the table entry are not found
+    el.identifierMapping = { table: { 'prot-B': 'Protein B' } };
+    await el.updateComplete;
+    expect(
+      el.getMappingReport().ptmInput.unmapped.map(entry => entry.index)
+    ).to.deep.equal([0, 1, 2]);
+  });
+});
+
+describe('Time-Series Playback', () => {
+  it('steps through the conditions and keeps the nodes in place', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.multiConditionFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    const ptmNode = el.d3Nodes!.find(node => node.type === 'ptm')!;
+
+    setTimeout(() => el.setTimepoint(1));
+    const { detail } = await oneEvent(el, 'timepointChanged');
+    expect(detail).to.deep.equal({ index: 1, condition: '4h' });
+    await el.updateComplete;
+
+    // The PTM node is updated in place instead of being replaced, so it keeps its position
+    const ptmNodeAfter = el.d3Nodes!.find(
+      node => node.nodeId === ptmNode.nodeId
+    )!;
+    expect(ptmNodeAfter).to.equal(ptmNode);
+    expect(ptmNodeAfter).to.include({ regulation: 'not' });
+
+    // The event bubbles, and only fires if the timepoint actually changes
+    const timepointEvents: Event[] = [];
+    el.parentElement!.addEventListener('timepointChanged', event =>
+      timepointEvents.push(event)
+    );
+    el.setTimepoint(5);
+    expect(timepointEvents).to.have.length(0);
+    el.setTimepoint(0);
+    el.setTimepoint(1);
+    expect(timepointEvents).to.have.length(2);
+    await el.updateComplete;
+
+    // Playback starts over from the first timepoint once the last one is reached
+    el.play();
+    expect(el.activeCondition).to.equal('1h');
+    expect(el.playbackIntervalId).to.not.equal(undefined);
+    el.pause();
+    expect(el.playbackIntervalId).to.equal(undefined);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('PTM Modification Types', () => {
+  it('summarizes, draws and filters each modification type separately', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.modificationTypesFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    // Phosphorylation summary nodes keep their IDs, the others get one per type
+    expect(
+      el
+        .d3Nodes!.filter(node => node.type === 'ptm summary')
+        .map(node => [
+          node.nodeId,
+          (<PathwayGraphNodeD3 & { label: string }>node).label,
+        ])
+    ).to.have.deep.members([
+      ['ptm-summary-up-2', '2'],
+      ['ptm-summary-ubiquitin-up-2', 'Ub 1'],
+      ['ptm-summary-acetyl-down-2', 'Ac 1'],
+      ['ptm-summary-glyco-not-2', 'Gly 1'],
+    ]);
+
+    el.expandAllPTMNodes();
+    await el.updateComplete;
+    const getPTMNodeRect = (site: string) =>
+      el.shadowRoot!.querySelector(
+        `#node-${
+          el.d3Nodes!.find(
+            node =>
+              (<Partial<NodeWithDetails>>node).detailsInternal?.Site === site
+          )!.nodeId
+        } .node-rect`
+      );
+    expect(
+      el
+        .d3Nodes!.filter(node => node.type === 'ptm')
+        .map(node => node.currentDisplayedLabel)
+    ).to.have.members(['S42', 'T44', 'K48', 'K12', 'N301']);
+    expect(getPTMNodeRect('K48-ub')!.getAttribute('transform')).to.equal(
+      'rotate(45)'
+    );
+    expect(getPTMNodeRect('K48-ub')!.classList.contains('ubiquitin')).to.be
+      .true;
+    expect(getPTMNodeRect('S42-p')!.getAttribute('width')).to.equal('15');
+    expect(
+      el.shadowRoot!.querySelector('#pathwayLegend')!.textContent
+    ).to.include('Ubiquitination');
+
+    // Hiding a modification type removes its nodes
+    el.contextMenuStore!.set('show-type-acetyl', false);
+    el.expandAllPTMNodes();
+    await el.updateComplete;
+    expect(getPTMNodeRect('K12-ac')).to.equal(null);
+    expect(getPTMNodeRect('K48-ub')).to.not.equal(null);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Site-Centric Aggregation', () => {
+  it('merges the peptides of each site by the chosen rule', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.siteAggregationFixture.ptmInputList}"
+        .siteAggregation="${{}}"
+      ></biowc-pathwaygraph>`
+    );
+    type SiteNode = NodeWithDetails & {
+      contributingPeptides: { [key: string]: string | number }[];
+    };
+    const getPTMNodes = () =>
+      el
+        .d3Nodes!.filter(node => node.type === 'ptm')
+        .map(node => <SiteNode>node);
+    const getSiteNode = (site: string) =>
+      getPTMNodes().find(node => node.detailsInternal.Site === site)!;
+
+    // S42, T44, the peptide without a site and S42 of the isoform
+    expect(getPTMNodes()).to.have.length(4);
+    expect(
+      getSiteNode('S42-p').contributingPeptides.map(
+        peptide => peptide['Modified Sequence']
+      )
+    ).to.deep.equal([
+      '_TRS(ph)AGAINK_',
+      '_TRS(ph)AT(ph)INK_',
+      '_TRS(ph)AGAINKR_',
+    ]);
+    expect(getSiteNode('T44-p').contributingPeptides).to.have.length(1);
+    // The isoform site is not merged into the site of the canonical protein
+    expect(
+      getPTMNodes()
+        .filter(node => node.detailsInternal.Site === 'S42-p')
+        .map(node => node.contributingPeptides.length)
+    ).to.deep.equal([3, 1]);
+    // The best localized peptide is the last one
+    expect(getSiteNode('S42-p')).to.include({ regulation: 'down' });
+
+    el.siteAggregation = { rule: 'mostSignificant' };
+    await el.updateComplete;
+    expect(getSiteNode('S42-p')).to.include({ regulation: 'up' });
+
+    el.siteAggregation = { rule: 'median' };
+    await el.updateComplete;
+    expect(getSiteNode('S42-p').detailsInternal).to.include({
+      'Log Fold Change': 0.5,
+      'p Value': 0.01,
+    });
+    expect(getSiteNode('S42-p')).to.include({ regulation: 'not' });
+
+    el.shadowRoot!.querySelector('#node-2')!.dispatchEvent(
+      new MouseEvent('click')
+    );
+    const { detail: selectionDetails } = await oneEvent(el, 'selectionDetails');
+    const selectedPeptides: { [key: string]: unknown }[] =
+      selectionDetails.selection_peptide;
+    expect(
+      selectedPeptides.find(peptide => peptide.Site === 'S42-p')![
+        'Contributing Peptides'
+      ]
+    ).to.have.length(3);
+
+    // Without the option, there is one node per peptide again
+    el.siteAggregation = undefined;
+    await el.updateComplete;
+    expect(getPTMNodes()).to.have.length(5);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+
+  it('merges a shared peptide into the site of each of its proteins', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes.map(node =>
+            node.nodeId === '1' ? { ...node, uniprotAccs: ['Q99999'] } : node
+          ),
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${[
+          {
+            uniprotAccs: ['P12345'],
+            details: { Site: 'S42-p', 'Log Fold Change': 2 },
+          },
+          {
+            uniprotAccs: ['P12345', 'Q99999'],
+            geneNames: ['Protein B', 'Protein A'],
+            details: { Site: 'S42-p', 'Log Fold Change': 1 },
+          },
+          {
+            uniprotAccs: ['Q99999'],
+            details: { Site: 'S42-p', 'Log Fold Change': 0.5 },
+          },
+        ]}"
+        .siteAggregation="${{}}"
+      ></biowc-pathwaygraph>`
+    );
+    type SiteNode = PathwayGraphNodeD3 & {
+      geneProteinNodeId: string;
+      contributingPeptides: unknown[];
+    };
+    const ptmNodes = el
+      .d3Nodes!.filter(node => node.type === 'ptm')
+      .map(node => <SiteNode>node);
+
+    // One site per protein, each made of the unique and the shared peptide
+    expect(ptmNodes.map(node => node.geneProteinNodeId).sort()).to.deep.equal([
+      '1',
+      '2',
+    ]);
+    expect(
+      ptmNodes.map(node => node.contributingPeptides.length)
+    ).to.deep.equal([2, 2]);
+  });
+});
+
+describe('Dose-Response Curves', () => {
+  it('draws the curve of a PTM in the pinned panel', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.doseResponseFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    const getPanel = () => el.shadowRoot!.querySelector('#doseResponsePanel');
+
+    // The potency is derived from the EC50 of the curve, whether it is given or fitted
+    const getPotency = (nodeId: string) =>
+      (<NodeWithDetails>el.d3Nodes!.find(node => node.nodeId === nodeId))
+        .detailsInternal['-log(EC50)'];
+    expect(getPotency('ptm-2_0')).to.be.closeTo(7, 1e-9);
+    expect(getPotency('ptm-2_1')).to.be.closeTo(7, 0.5);
+
+    el.pinDoseResponsePanel('ptm-2_0');
+    expect(getPanel()!.textContent).to.include('S42-p');
+    expect(getPanel()!.querySelector('path.dose-response-curve')).to.not.equal(
+      null
+    );
+    expect(getPanel()!.querySelector('.dose-response-ec50')).to.not.equal(null);
+
+    // Measured points are drawn with a fitted curve, except for the control
+    el.pinDoseResponsePanel('ptm-2_1');
+    expect(
+      getPanel()!.querySelectorAll('circle.dose-response-point')
+    ).to.have.length(6);
+    expect(getPanel()!.querySelector('path.dose-response-curve')).to.not.equal(
+      null
+    );
+
+    // The panel stays pinned through updates, until it is closed
+    el.hue = 'potency';
+    await el.updateComplete;
+    expect(getPanel()).to.not.equal(null);
+    getPanel()!
+      .querySelector<HTMLButtonElement>('.dose-response-panel-close')!
+      .click();
+    expect(getPanel()).to.equal(null);
+
+    // A pinned detail card shows the curve as well
+    el.pinDetailCard('ptm-2_0');
+    expect(
+      el.shadowRoot!.querySelector(
+        '#detailCards .detail-card-plot path.dose-response-curve'
+      )
+    ).to.not.equal(null);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Tooltip Options', () => {
+  it('formats the details, links to UniProt and takes custom renderers', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${[
+          {
+            uniprotAccs: ['P12345'],
+            details: {
+              Site: 'S42-p',
+              'Log Fold Change': 1.2345,
+              'p Value': 0.01,
+            },
+          },
+        ]}"
+        .tooltipOptions="${{
+          detailKeys: ['Log Fold Change', 'Site'],
+          numberFormat: '.1f',
+          externalLinks: true,
+          renderers: {
+            gene_protein: (
+              node: PathwayGraphNodeD3,
+              defaultTooltip: TemplateResult
+            ) =>
+              html`<b class="custom-tooltip">${node.nodeId}</b
+                >${defaultTooltip}`,
+          },
+        }}"
+      ></biowc-pathwaygraph>`
+    );
+    el.expandAllPTMNodes();
+    await el.updateComplete;
+    const tooltip = el.shadowRoot!.querySelector('#nodetooltip')!;
+
+    setTimeout(() =>
+      el
+        .shadowRoot!.querySelector('#node-ptm-2_0')!
+        .dispatchEvent(new MouseEvent('mouseenter'))
+    );
+    const { detail } = await oneEvent(el, 'tooltipShown');
+    expect(detail.node.nodeId).to.equal('ptm-2_0');
+    const tooltipText = tooltip.textContent!;
+    expect(tooltipText).to.include('Log Fold Change: 1.2');
+    expect(tooltipText).to.not.include('1.2345');
+    expect(tooltipText).to.not.include('p Value');
+    expect(tooltipText.indexOf('Log Fold Change')).to.be.lessThan(
+      tooltipText.indexOf('Site')
+    );
+    expect(
+      Array.from(tooltip.querySelectorAll('a'), link =>
+        link.getAttribute('href')
+      )
+    ).to.deep.equal([
+      'https://www.uniprot.org/uniprotkb/P12345/entry#ptm_processing',
+      'https://www.phosphosite.org/uniprotAccAction?id=P12345',
+    ]);
+
+    // The renderer wraps the default tooltip of the gene/protein node, inside the slot for the host
+    el.shadowRoot!.querySelector('#node-2')!.dispatchEvent(
+      new MouseEvent('mouseenter')
+    );
+    const slot = tooltip.querySelector('slot')!;
+    expect(slot.getAttribute('name')).to.equal('tooltip-gene_protein');
+    expect(slot.querySelector('.custom-tooltip')!.textContent).to.equal('2');
+    expect(slot.textContent).to.include('Protein B');
+
+    // The links are opt-in
+    el.tooltipOptions = undefined;
+    await el.updateComplete;
+    el.shadowRoot!.querySelector('#node-2')!.dispatchEvent(
+      new MouseEvent('mouseenter')
+    );
+    expect(
+      el.shadowRoot!.querySelector('#nodetooltip')!.querySelector('a')
+    ).to.equal(null);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
+
+describe('Detail Cards', () => {
+  it('pins cards on shift-click, connects them to their nodes and exports them', async () => {
+    const el = await fixture<BiowcPathwaygraph>(
+      html` <biowc-pathwaygraph
+        .graphdataSkeleton="${{
+          nodes: StoryFixtures.simplePTMGraphFixture.nodes,
+          links: StoryFixtures.simplePTMGraphFixture.links,
+        }}"
+        .ptmInputList="${StoryFixtures.simplePTMGraphFixture.ptmInputList}"
+      ></biowc-pathwaygraph>`
+    );
+    el.shadowRoot!.querySelector('#node-2')!.dispatchEvent(
+      new MouseEvent('click', { shiftKey: true })
+    );
+    el.pinDetailCard('1');
+    // Pinning the same node twice does not open a second card
+    el.pinDetailCard('1');
+    const detailCardsG = el.shadowRoot!.querySelector('#detailCards')!;
+    expect(detailCardsG.querySelectorAll('.detail-card').length).to.equal(2);
+    expect(
+      detailCardsG.querySelectorAll('.detail-card-leader').length
+    ).to.equal(2);
+    const cardTitle = el.d3Nodes!.find(node => node.nodeId === '2')!
+      .currentDisplayedLabel!;
+    expect(
+      detailCardsG.querySelector('.detail-card-title')!.textContent
+    ).to.equal(cardTitle);
+    // Shift + Click does not change the selection
+    expect(
+      el.d3Nodes!.find(node => node.nodeId === '2')!.selected
+    ).to.not.equal(true);
+
+    // The cards are only exported on request, and never with their close buttons
+    const countCardTitle = (pdf: string) =>
+      pdf.split(`(${cardTitle}) Tj`).length - 1;
+    const defaultPdf = await el.toPdfBlob().text();
+    const annotatedPdf = await el
+      .toPdfBlob({ includeDetailCards: true })
+      .text();
+    expect(countCardTitle(annotatedPdf)).to.equal(
+      countCardTitle(defaultPdf) + 1
+    );
+    expect(detailCardsG.getAttribute('display')).to.equal(null);
+
+    detailCardsG
+      .querySelector('.detail-card-close')!
+      .dispatchEvent(new MouseEvent('click'));
+    expect(el.detailCards.map(({ nodeId }) => nodeId)).to.deep.equal(['1']);
+    expect(
+      el.shadowRoot!.querySelectorAll('#detailCards .detail-card').length
+    ).to.equal(1);
+    await expect(el).shadowDom.to.be.accessible();
+  });
+});
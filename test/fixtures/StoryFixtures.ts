@@ -434,4 +434,377 @@ export default {
       },
     ],
   },
+  kgmlFixture: {
+    kgml: `<?xml version="1.0"?>
+<!DOCTYPE pathway SYSTEM "https://www.kegg.jp/kegg/xml/KGML_v0.7.2_.dtd">
+<pathway name="path:hsa99999" org="hsa" number="99999" title="Test Pathway">
+  <entry id="1" name="hsa:1" type="gene">
+    <graphics name="GENEA, GA, GeneA1..." type="rectangle" x="50" y="50" width="46" height="17"/>
+  </entry>
+  <entry id="2" name="hsa:2" type="gene">
+    <graphics name="GENEB" type="rectangle" x="175" y="50" width="46" height="17"/>
+  </entry>
+  <entry id="3" name="hsa:3" type="gene">
+    <graphics name="GENEC" type="rectangle" x="175" y="100" width="46" height="17"/>
+  </entry>
+  <entry id="4" name="cpd:C00001" type="compound">
+    <graphics name="C00001" type="circle" x="100" y="150" width="8" height="8"/>
+  </entry>
+  <entry id="5" name="path:hsa00001" type="map">
+    <graphics name="Some Other Pathway" type="roundrectangle" x="50" y="150" width="100" height="25"/>
+  </entry>
+  <entry id="6" name="undefined" type="group">
+    <component id="2"/>
+    <component id="3"/>
+  </entry>
+  <relation entry1="1" entry2="2" type="PPrel">
+    <subtype name="activation" value="--&gt;"/>
+    <subtype name="phosphorylation" value="+p"/>
+  </relation>
+  <relation entry1="6" entry2="5" type="PPrel">
+    <subtype name="inhibition" value="--|"/>
+  </relation>
+  <reaction id="3" name="rn:R00001" type="irreversible">
+    <substrate id="4" name="cpd:C00001"/>
+    <product id="1" name="cpd:C00002"/>
+  </reaction>
+</pathway>`,
+  },
+  gpmlFixture: {
+    gpml: `<?xml version="1.0" encoding="UTF-8"?>
+<Pathway xmlns="http://pathvisio.org/GPML/2013a" Name="Test Pathway" Organism="Homo sapiens">
+  <DataNode TextLabel="Protein A" GraphId="a" Type="GeneProduct">
+    <Graphics CenterX="50" CenterY="50" Width="80" Height="20"/>
+    <Xref Database="Uniprot-TrEMBL" ID="P12345"/>
+  </DataNode>
+  <DataNode TextLabel="Protein B" GraphId="b" Type="Protein" GroupRef="grp">
+    <Graphics CenterX="175" CenterY="50" Width="80" Height="20"/>
+    <Xref Database="HGNC" ID="GENEB"/>
+  </DataNode>
+  <DataNode TextLabel="Protein C" GraphId="c" Type="Protein" GroupRef="grp">
+    <Graphics CenterX="175" CenterY="100" Width="80" Height="20"/>
+    <Xref Database="Entrez Gene" ID="3"/>
+  </DataNode>
+  <DataNode TextLabel="Compound&#xA;X" GraphId="d" Type="Metabolite">
+    <Graphics CenterX="100" CenterY="150" Width="80" Height="20"/>
+    <Xref Database="ChEBI" ID="CHEBI:1"/>
+  </DataNode>
+  <Interaction GraphId="i1">
+    <Graphics>
+      <Point X="90" Y="50" GraphRef="a"/>
+      <Point X="135" Y="50" GraphRef="b" ArrowHead="mim-stimulation"/>
+      <Anchor Position="0.5" Shape="None" GraphId="anchor1"/>
+    </Graphics>
+  </Interaction>
+  <Interaction GraphId="i2">
+    <Graphics>
+      <Point X="100" Y="140" GraphRef="anchor1" ArrowHead="TBar"/>
+      <Point X="100" Y="130" GraphRef="d"/>
+    </Graphics>
+  </Interaction>
+  <Interaction GraphId="i3">
+    <Graphics>
+      <Point X="175" Y="110" GraphRef="group1"/>
+      <Point X="175" Y="200"/>
+    </Graphics>
+  </Interaction>
+  <Group GroupId="grp" GraphId="group1" Style="Complex"/>
+</Pathway>`,
+  },
+  sbgnFixture: {
+    sbgn: `<?xml version="1.0" encoding="UTF-8"?>
+<sbgn xmlns="http://sbgn.org/libsbgn/0.3">
+  <map id="map1" language="process description">
+    <glyph class="macromolecule" id="raf">
+      <label text="RAF1"/>
+      <bbox x="0" y="0" w="60" h="30"/>
+    </glyph>
+    <glyph class="macromolecule" id="mek">
+      <label text="MAP2K1"/>
+      <bbox x="100" y="0" w="60" h="30"/>
+    </glyph>
+    <glyph class="macromolecule" id="mek-p">
+      <label text="MAP2K1"/>
+      <bbox x="200" y="0" w="60" h="30"/>
+      <glyph class="state variable" id="mek-p-state">
+        <state value="P" variable="S218"/>
+        <bbox x="195" y="-5" w="20" h="10"/>
+      </glyph>
+    </glyph>
+    <glyph class="process" id="pn1">
+      <bbox x="175" y="10" w="10" h="10"/>
+      <port id="pn1.1" x="170" y="15"/>
+      <port id="pn1.2" x="190" y="15"/>
+    </glyph>
+    <glyph class="simple chemical" id="atp">
+      <label text="ATP"/>
+      <bbox x="100" y="100" w="40" h="40"/>
+    </glyph>
+    <glyph class="complex" id="cplx">
+      <bbox x="0" y="200" w="200" h="60"/>
+      <glyph class="macromolecule" id="grb2">
+        <label text="GRB2"/>
+        <bbox x="10" y="210" w="60" h="30"/>
+      </glyph>
+      <glyph class="macromolecule" id="sos1">
+        <label text="SOS1"/>
+        <bbox x="100" y="210" w="60" h="30"/>
+      </glyph>
+    </glyph>
+    <glyph class="compartment" id="cytosol">
+      <label text="cytosol"/>
+      <bbox x="-50" y="-50" w="400" h="400"/>
+    </glyph>
+    <arc class="consumption" id="a1" source="mek" target="pn1.1"/>
+    <arc class="production" id="a2" source="pn1.2" target="mek-p"/>
+    <arc class="catalysis" id="a3" source="raf" target="pn1"/>
+    <arc class="inhibition" id="a4" source="atp" target="grb2"/>
+  </map>
+</sbgn>`,
+  },
+  regulationStatisticsFixture: {
+    ptmInputList: [
+      {
+        geneNames: ['Protein A'],
+        details: { 'Log Fold Change': -1.8, 'p Value': 0.001 },
+      },
+      {
+        geneNames: ['Protein B'],
+        details: { 'Log Fold Change': 3, 'p Value': 0.0001 },
+      },
+      {
+        geneNames: ['Protein A'],
+        details: { 'Log Fold Change': 2.5, 'p Value': 0.2 },
+      },
+      {
+        geneNames: ['Protein B'],
+        details: { 'Log Fold Change': 1.2, 'p Value': 0.01 },
+      },
+    ],
+  },
+  multiConditionFixture: {
+    ptmInputList: [
+      {
+        geneNames: ['Protein A'],
+        details: { Site: 'S42' },
+        conditions: {
+          '1h': { regulation: 'up', details: { 'Log Fold Change': 1.5 } },
+          '4h': { regulation: 'not', details: { 'Log Fold Change': 0.1 } },
+        },
+      },
+      {
+        geneNames: ['Protein B'],
+        details: { Site: 'Y512' },
+        conditions: {
+          '1h': { details: { 'Log Fold Change': -0.5, 'p Value': 0.01 } },
+          '4h': { details: { 'Log Fold Change': -2, 'p Value': 0.01 } },
+        },
+      },
+    ],
+  },
+  kinaseActivityFixture: {
+    // Protein A phosphorylates all sites on Protein B, which are strongly upregulated
+    ptmInputList: [
+      ...[2.5, 3, 2].map((foldChange, i) => ({
+        geneNames: ['Protein B'],
+        details: {
+          Site: `S${i + 1}`,
+          'Log Fold Change': foldChange,
+          'Upstream Kinase(s)': 'Protein A',
+        },
+      })),
+      ...[0.1, -0.2, 0, 0.3, -0.1].map((foldChange, i) => ({
+        geneNames: ['Protein A'],
+        details: { Site: `T${i + 1}`, 'Log Fold Change': foldChange },
+      })),
+    ],
+  },
+  kinaseSubstrateFixture: {
+    ptmInputList: [
+      { uniprotAccs: ['P12345'], details: { Site: 'S42' } },
+      { uniprotAccs: ['P12345'], details: { Site: 'Y512-p' } },
+    ],
+    phosphositeplusTable: [
+      'Kinase-substrate relationships, for non-commercial use only',
+      '',
+      'GENE\tKINASE\tKIN_ACC_ID\tSUB_ACC_ID\tSUB_MOD_RSD',
+      'GeneA\tKinase A\tQ11111\tP12345\tS42',
+      'GeneA\tKinase A\tQ11111\tP12345\tT7',
+    ].join('\n'),
+    omnipathTable: [
+      'enzyme\tsubstrate\tenzyme_genesymbol\tresidue_type\tresidue_offset\tmodification\tsources\tcuration_effort',
+      'Q11111\tP12345\tProtein A\tS\t42\tphosphorylation\tSIGNOR;PhosphoSite\t3',
+      'Q11111\tP12345\tProtein A\tY\t512\tphosphorylation\tSIGNOR\t1',
+      'Q11111\tP12345\tProtein A\tS\t42\tdephosphorylation\tSIGNOR\t5',
+    ].join('\n'),
+  },
+  maxquantSitesFixture: {
+    table: [
+      'Proteins\tGene names\tAmino acid\tPosition\tLocalization prob\tPhospho (STY) Probabilities\tlog2FC\tKinases\tReverse\tPotential contaminant',
+      'P12345;P12345-2\tProtein A\tS\t42\t0.98\tTRS(0.98)AGAINK\t-1.5\tGeneA;Protein D\t\t',
+      'Q67890\tProtein B\tY\t512\t0.75\tGILGVIVY(0.75)LK\t0.2\t\t\t',
+      'REV__P99999\t\tT\t7\t0.5\tPEPT(0.5)IDEK\t3\t\t+\t',
+    ].join('\n'),
+  },
+  metaboliteFixture: {
+    nodes: [
+      {
+        nodeId: '1',
+        geneNames: ['Protein A'],
+        type: 'gene_protein',
+        x: 50,
+        y: 50,
+      },
+      {
+        nodeId: '2',
+        label: 'ATP',
+        chebiIds: ['CHEBI:15422'],
+        keggIds: ['C00002'],
+        type: 'compound',
+        x: 175,
+        y: 50,
+      },
+      {
+        nodeId: '3',
+        label: 'Glucose',
+        hmdbIds: ['HMDB0000122'],
+        type: 'compound',
+        x: 175,
+        y: 100,
+      },
+      {
+        nodeId: '4',
+        label: 'Pyruvate',
+        type: 'compound',
+        x: 50,
+        y: 100,
+      },
+    ],
+    links: [
+      {
+        linkId: 'relation-1',
+        sourceId: '1',
+        targetId: '2',
+        types: ['activation'],
+      },
+    ],
+    metaboliteInputList: [
+      {
+        compoundNames: ['atp'],
+        regulation: 'up',
+        details: { 'Log Fold Change': 1.5 },
+      },
+      {
+        hmdbIds: ['HMDB00122'],
+        details: { 'Log Fold Change': -2, 'p Value': 0.001 },
+      },
+      {
+        chebiIds: ['15422'],
+        keggIds: ['cpd:C00002'],
+        regulation: 'up',
+        details: { 'Log Fold Change': 0.5 },
+      },
+    ],
+  },
+  modificationTypesFixture: {
+    // Protein B is phosphorylated at two sites and ubiquitinated, acetylated and glycosylated at one each
+    ptmInputList: [
+      {
+        uniprotAccs: ['P12345'],
+        regulation: 'up',
+        details: { Site: 'S42-p' },
+      },
+      {
+        uniprotAccs: ['P12345'],
+        regulation: 'up',
+        details: { Site: 'T44-p' },
+      },
+      {
+        uniprotAccs: ['P12345'],
+        modificationType: 'ubiquitin',
+        regulation: 'up',
+        details: { Site: 'K48-ub' },
+      },
+      {
+        uniprotAccs: ['P12345'],
+        modificationType: 'acetyl',
+        regulation: 'down',
+        details: { Site: 'K12-ac' },
+      },
+      {
+        uniprotAccs: ['P12345'],
+        modificationType: 'glyco',
+        regulation: 'not',
+        details: { Site: 'N301-gl' },
+      },
+    ],
+  },
+  siteAggregationFixture: {
+    // Three peptides cover S42 of Protein B, one of them also covers T44, and one peptide has no site.
+    // The last peptide covers S42 of an isoform, which is a different residue than S42 of the canonical protein
+    ptmInputList: [
+      {
+        uniprotAccs: ['P12345'],
+        details: {
+          Site: 'S42-p',
+          'Modified Sequence': '_TRS(ph)AGAINK_',
+          'Log Fold Change': 2,
+          'p Value': 0.001,
+          'Localization prob': 0.9,
+        },
+      },
+      {
+        uniprotAccs: ['P12345'],
+        details: {
+          Site: 'S42-p;T44-p',
+          'Modified Sequence': '_TRS(ph)AT(ph)INK_',
+          'Log Fold Change': 0.5,
+          'p Value': 0.2,
+          'Localization prob': 0.6,
+        },
+      },
+      {
+        uniprotAccs: ['P12345'],
+        details: {
+          Site: 'S42-p',
+          'Modified Sequence': '_TRS(ph)AGAINKR_',
+          'Log Fold Change': -1.5,
+          'p Value': 0.01,
+          'Localization prob': 0.99,
+        },
+      },
+      {
+        uniprotAccs: ['P12345'],
+        details: { Sequence: 'VLSEEK', 'Log Fold Change': 0 },
+      },
+      {
+        uniprotAccs: ['P12345-2'],
+        details: {
+          Site: 'S42-p',
+          'Modified Sequence': '_GKS(ph)PEEK_',
+          'Log Fold Change': 1,
+          'p Value': 0.05,
+          'Localization prob': 0.8,
+        },
+      },
+    ],
+  },
+  doseResponseFixture: {
+    // One PTM comes with the fitted curve, the other with the measured points only, including a control without drug
+    ptmInputList: [
+      {
+        uniprotAccs: ['P12345'],
+        details: { Site: 'S42-p' },
+        doseResponse: { top: 1, bottom: 0.2, slope: 1, ec50: 1e-7 },
+      },
+      {
+        uniprotAccs: ['P12345'],
+        details: { Site: 'T44-p' },
+        doseResponse: {
+          doses: [0, 1e-10, 1e-9, 1e-8, 1e-7, 1e-6, 1e-5],
+          responses: [1, 1, 0.99, 0.93, 0.6, 0.27, 0.21],
+        },
+      },
+    ],
+  },
 };